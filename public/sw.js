@@ -0,0 +1,336 @@
+/**
+ * MediGuide service worker
+ * Precaches the app shell and the build's assets so the app starts without a
+ * connection, even when the first visit was not yet controlled by it, uploads
+ * reports that were queued while offline (Background Sync) and shows push
+ * notifications.
+ *
+ * Report data is not cached here. The app keeps its offline copy encrypted in
+ * IndexedDB (src/lib/offline.ts) and serves it once the shell has started, so
+ * no plaintext health data ends up in Cache Storage.
+ */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `mediguide-shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `mediguide-assets-${CACHE_VERSION}`;
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/favicon.svg'];
+// The build's hashed JS and CSS; vite.config.ts writes the list in at build time
+const BUILD_ASSETS = [];
+// Hashed build assets pile up across deploys; keep the most recent ones
+const MAX_ASSET_ENTRIES = 120;
+
+// Keep in step with src/lib/idb.ts and src/lib/pwa.ts
+const DB_NAME = 'mediguide';
+const UPLOAD_SYNC_TAG = 'mediguide-uploads';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([
+      caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)),
+      caches.open(ASSET_CACHE).then((cache) => cache.addAll(BUILD_ASSETS)),
+    ])
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('mediguide-') && key !== SHELL_CACHE && key !== ASSET_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// ---------------------------------------------------------------------------
+// Fetch: network-first navigations, cache-first hashed assets
+// ---------------------------------------------------------------------------
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  // API and Supabase calls are cross-origin and always go to the network
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(handleAsset(request));
+    return;
+  }
+
+  if (SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+  }
+});
+
+/**
+ * Every route is served by index.html; a fresh copy replaces the cached shell
+ */
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/index.html', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/index.html');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function handleAsset(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    await cache.put(request, response.clone());
+    trimCache(cache, MAX_ASSET_ENTRIES);
+  }
+  return response;
+}
+
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys();
+  // Cache keys come back in insertion order, oldest first
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+}
+
+// ---------------------------------------------------------------------------
+// Background Sync: send uploads left pending while offline
+// ---------------------------------------------------------------------------
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === UPLOAD_SYNC_TAG) {
+    event.waitUntil(syncPendingUploads());
+  }
+});
+
+/**
+ * Send the signed-in account's stored uploads with the access token the app
+ * mirrored for us. An open tab resumes its own uploads, and an expired token
+ * leaves them for the app to offer on the next visit; the worker never
+ * refreshes the session. Uploads the server has rejected are not sent again.
+ * Throwing on a network failure or 5xx makes the browser retry the sync later.
+ */
+async function syncPendingUploads() {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.length > 0) return;
+
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const session = await getRecord(db, 'session', 'current');
+    if (!session || !session.userId || session.expiresAt * 1000 <= Date.now()) return;
+
+    // Another account's report must never go out under this token
+    const uploads = (await getAllRecords(db, 'uploads'))
+      .filter((upload) => upload.userId === session.userId && !upload.rejected);
+    uploads.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    let uploaded = 0;
+    for (const upload of uploads) {
+      const response = await fetch(`${session.apiUrl}/reports/upload`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.accessToken}`,
+          // Same key as the app's own attempts, so a replay cannot create a second report
+          'Idempotency-Key': upload.id,
+        },
+        body: buildUploadForm(upload),
+      });
+
+      if (response.ok) {
+        await deleteRecord(db, 'uploads', upload.id);
+        uploaded += 1;
+        continue;
+      }
+
+      if (response.status >= 500 || response.status === 429) {
+        throw new Error(`Upload failed with status ${response.status}`);
+      }
+
+      // Anything else will fail the same way again; keep it for the app to show, but stop sending it
+      await putRecord(db, 'uploads', {
+        ...upload,
+        attempts: upload.attempts + 1,
+        lastError: `Upload failed with status ${response.status}`,
+        rejected: true,
+      });
+    }
+
+    if (uploaded > 0) {
+      await self.registration.showNotification(uploaded > 1 ? `${uploaded} reports uploaded` : 'Report uploaded', {
+        body: "We'll let you know when the analysis is ready.",
+        tag: UPLOAD_SYNC_TAG,
+        icon: '/favicon.svg',
+        data: { url: '/history' },
+      });
+    }
+  } finally {
+    db.close();
+  }
+}
+
+// Mirrors the form built by uploadReport in src/lib/api.ts
+function buildUploadForm(upload) {
+  const formData = new FormData();
+  if (upload.files.length === 1) {
+    formData.append('file', upload.files[0]);
+  } else {
+    upload.files.forEach((file) => formData.append('files', file));
+  }
+  if (upload.reportType) formData.append('report_type', upload.reportType);
+  if (upload.labName) formData.append('lab_name', upload.labName);
+  if (upload.collectionDate) formData.append('collection_date', upload.collectionDate);
+  if (upload.targetUserId) formData.append('target_user_id', upload.targetUserId);
+  if (upload.fingerprints && upload.fingerprints.length) {
+    formData.append('fingerprints', JSON.stringify(upload.fingerprints));
+  }
+  return formData;
+}
+
+// ---------------------------------------------------------------------------
+// Push notifications
+// ---------------------------------------------------------------------------
+
+/**
+ * Payloads carry ids and a display name only; the wording lives here so no
+ * report content travels through the push service
+ */
+function describePush(payload) {
+  const name = payload.member_name || 'A family member';
+
+  switch (payload.type) {
+    case 'report-ready':
+      return {
+        title: 'Your report is ready',
+        body: 'Your report has been analysed.',
+        tag: payload.report_id,
+        url: `/reports/${payload.report_id}`,
+      };
+    case 'report-failed':
+      return {
+        title: 'Report processing failed',
+        body: "We couldn't process your report. Please try scanning it again.",
+        tag: payload.report_id,
+        url: '/scan',
+      };
+    case 'family-invite':
+      return {
+        title: 'New family invitation',
+        body: `${name} wants to share health reports with you.`,
+        tag: `family-invite-${payload.connection_id}`,
+        url: '/family',
+      };
+    case 'family-report-flagged':
+      return {
+        title: `${name}'s report needs attention`,
+        body: 'Some results are outside the normal range.',
+        tag: payload.report_id,
+        url: `/reports/${payload.report_id}`,
+      };
+    default:
+      return {
+        title: payload.title || 'MediGuide',
+        body: payload.body || '',
+        tag: payload.tag,
+        url: payload.url || '/',
+      };
+  }
+}
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  const { title, body, tag, url } = describePush(payload);
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body,
+      tag,
+      icon: '/favicon.svg',
+      data: { url },
+    })
+  );
+});
+
+/**
+ * Open the notification's screen in an existing tab when there is one;
+ * the app routes it without a reload (onServiceWorkerNavigate in src/lib/pwa.ts)
+ */
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows.find((item) => new URL(item.url).origin === self.location.origin);
+    if (client) {
+      await client.focus();
+      client.postMessage({ type: 'navigate', url });
+      return;
+    }
+    await self.clients.openWindow(url);
+  })());
+});
+
+// ---------------------------------------------------------------------------
+// IndexedDB helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Open the app's database at whatever version it is; the app owns upgrades,
+ * so a database without the stores we need is treated as empty
+ */
+function openDatabase() {
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME);
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onsuccess = () => {
+      const db = request.result;
+      // Never hold up the app upgrading its schema
+      db.onversionchange = () => db.close();
+      if (!db.objectStoreNames.contains('uploads') || !db.objectStoreNames.contains('session')) {
+        db.close();
+        resolve(null);
+        return;
+      }
+      resolve(db);
+    };
+    request.onerror = () => resolve(null);
+  });
+}
+
+function withStore(db, store, mode, run) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = run(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+const getRecord = (db, store, id) => withStore(db, store, 'readonly', (s) => s.get(id));
+const getAllRecords = (db, store) => withStore(db, store, 'readonly', (s) => s.getAll());
+const putRecord = (db, store, value) => withStore(db, store, 'readwrite', (s) => s.put(value));
+const deleteRecord = (db, store, id) => withStore(db, store, 'readwrite', (s) => s.delete(id));
@@ -4,9 +4,16 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
-import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// apiFetch already retries transient failures, so queries do not retry on top of it.
+// Queries and mutations also run while offline: reads fall back to the encrypted
+// cache and writes are queued, instead of React Query pausing them.
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { retry: false, networkMode: 'always' },
+    mutations: { networkMode: 'always' },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -15,9 +22,8 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
+          {/* Screens are routed inside MediGuideApp, below the app providers */}
+          <Route path="/*" element={<Index />} />
         </Routes>
       </BrowserRouter>
     </TooltipProvider>
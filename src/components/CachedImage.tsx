@@ -0,0 +1,33 @@
+import React, { useEffect, useState } from 'react';
+import { useOffline } from '@/contexts/OfflineContext';
+import { getCachedImage } from '@/lib/offline';
+
+/**
+ * CachedImage component - An img that falls back to the encrypted offline copy
+ * of a report image while there is no connection
+ */
+export function CachedImage({ src, ...props }: React.ImgHTMLAttributes<HTMLImageElement>) {
+  const { isOnline } = useOffline();
+  // Offline, the network URL would only fail (and trip onError), so wait for the cached copy
+  const [resolvedSrc, setResolvedSrc] = useState(isOnline ? src : undefined);
+
+  useEffect(() => {
+    setResolvedSrc(isOnline ? src : undefined);
+    if (isOnline || !src) return;
+
+    let cancelled = false;
+    let objectUrl: string | undefined;
+    getCachedImage(src).then((blob) => {
+      if (cancelled || !blob) return;
+      objectUrl = URL.createObjectURL(blob);
+      setResolvedSrc(objectUrl);
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [src, isOnline]);
+
+  return <img src={resolvedSrc} {...props} />;
+}
@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
 import { askMediBot } from '@/lib/api';
 import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
 
 interface Message {
     id: string;
@@ -64,7 +65,7 @@ export function Chatbot({ reportId }: ChatbotProps) {
 
             setMessages(prev => [...prev, botMsg]);
         } catch (error) {
-            console.error('Chatbot error:', error);
+            logger.error('Chatbot error:', error);
             toast.error('Failed to get an answer. Please try again.');
         } finally {
             setIsLoading(false);
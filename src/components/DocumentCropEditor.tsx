@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Check, X, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { loadImage } from '@/lib/scan';
+import {
+  Quad,
+  EnhanceMode,
+  detectDocumentCorners,
+  warpPerspective,
+  enhanceDocument,
+  canvasToFile,
+} from '@/lib/document';
+import { logger } from '@/lib/logger';
+
+interface DocumentCropEditorProps {
+  file: File;
+  onConfirm: (file: File) => void;
+  onCancel: () => void;
+}
+
+const enhanceOptions: Array<{ id: EnhanceMode; label: string }> = [
+  { id: 'original', label: 'Original' },
+  { id: 'enhanced', label: 'Enhanced' },
+  { id: 'bw', label: 'B&W' },
+];
+
+/**
+ * DocumentCropEditor component - Lets the user adjust the detected page corners
+ * of a capture, then flattens, crops and enhances the page before it is added
+ */
+export function DocumentCropEditor({ file, onConfirm, onCancel }: DocumentCropEditorProps) {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [corners, setCorners] = useState<Quad | null>(null);
+  const [detected, setDetected] = useState(true);
+  const [mode, setMode] = useState<EnhanceMode>('enhanced');
+  const [processing, setProcessing] = useState(false);
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const onConfirmRef = useRef(onConfirm);
+  onConfirmRef.current = onConfirm;
+
+  useEffect(() => {
+    let cancelled = false;
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+
+    loadImage(file)
+      .then((img) => {
+        if (cancelled) return;
+        const result = detectDocumentCorners(img);
+        setImage(img);
+        setCorners(result.corners);
+        setDetected(result.detected);
+      })
+      .catch((error) => {
+        logger.error('Failed to load capture:', error);
+        // Undecodable captures skip the editor and go through unchanged
+        if (!cancelled) onConfirmRef.current(file);
+      });
+
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+    };
+  }, [file]);
+
+  const toImagePoint = (clientX: number, clientY: number) => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect || !image) return null;
+    return {
+      x: Math.min(Math.max(((clientX - rect.left) / rect.width) * image.naturalWidth, 0), image.naturalWidth),
+      y: Math.min(Math.max(((clientY - rect.top) / rect.height) * image.naturalHeight, 0), image.naturalHeight),
+    };
+  };
+
+  const handlePointerDown = (index: number) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraggingIndex(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (draggingIndex === null || !corners) return;
+    const point = toImagePoint(e.clientX, e.clientY);
+    if (!point) return;
+    const next = [...corners] as Quad;
+    next[draggingIndex] = point;
+    setCorners(next);
+  };
+
+  const handlePointerUp = () => {
+    setDraggingIndex(null);
+  };
+
+  const handleConfirm = async () => {
+    if (!image || !corners) return;
+    setProcessing(true);
+
+    // Let the spinner paint before the pixel work blocks the main thread
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    try {
+      const page = enhanceDocument(warpPerspective(image, corners), mode);
+      const processed = await canvasToFile(page, file.name.replace(/\.\w+$/, '') + '_page.jpg');
+      onConfirm(processed);
+    } catch (error) {
+      logger.error('Document processing failed:', error);
+      // Fall back to the raw capture rather than losing the page
+      onConfirm(file);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const toPercent = (value: number, size: number) => `${(value / size) * 100}%`;
+
+  return (
+    <div className="absolute inset-0 z-40 bg-black flex flex-col">
+      {/* Header */}
+      <div className="pt-12 px-5 pb-4 flex items-center justify-between">
+        <button
+          onClick={onCancel}
+          className="w-10 h-10 flex items-center justify-center bg-white/10 rounded-full"
+        >
+          <X className="w-6 h-6 text-primary-foreground" />
+        </button>
+        <h1 className="text-section text-primary-foreground font-semibold">Adjust Corners</h1>
+        <div className="w-10" />
+      </div>
+
+      <p className="px-5 text-body-sm text-primary-foreground/70 text-center">
+        {detected
+          ? 'Drag the corners to fit the edges of the page.'
+          : "We couldn't find the page edges. Drag the corners onto the page."}
+      </p>
+
+      {/* Image with corner handles */}
+      <div className="flex-1 flex items-center justify-center p-6 min-h-0">
+        {image && corners && previewUrl ? (
+          <div
+            ref={frameRef}
+            className="relative max-w-full max-h-full touch-none select-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <img
+              src={previewUrl}
+              alt="Captured page"
+              className="block max-w-full max-h-[60vh] w-auto h-auto"
+              draggable={false}
+            />
+
+            <svg
+              className="absolute inset-0 w-full h-full pointer-events-none"
+              viewBox={`0 0 ${image.naturalWidth} ${image.naturalHeight}`}
+              preserveAspectRatio="none"
+            >
+              <polygon
+                points={corners.map(p => `${p.x},${p.y}`).join(' ')}
+                className="fill-primary/20 stroke-primary"
+                strokeWidth={Math.max(image.naturalWidth, image.naturalHeight) / 300}
+              />
+            </svg>
+
+            {corners.map((corner, index) => (
+              <div
+                key={index}
+                onPointerDown={handlePointerDown(index)}
+                className={cn(
+                  "absolute w-7 h-7 -ml-3.5 -mt-3.5 rounded-full border-2 border-primary-foreground bg-primary shadow-lg cursor-grab",
+                  draggingIndex === index && "scale-125 cursor-grabbing"
+                )}
+                style={{
+                  left: toPercent(corner.x, image.naturalWidth),
+                  top: toPercent(corner.y, image.naturalHeight),
+                }}
+              />
+            ))}
+          </div>
+        ) : (
+          <Loader2 className="w-8 h-8 text-primary-foreground animate-spin" />
+        )}
+      </div>
+
+      {/* Enhancement Mode */}
+      <div className="px-5 pb-4">
+        <div className="flex p-1 bg-white/10 rounded-lg">
+          {enhanceOptions.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setMode(option.id)}
+              className={cn(
+                "flex-1 py-1.5 text-body-sm font-medium rounded-md transition-all",
+                mode === option.id ? "bg-card text-foreground shadow-sm" : "text-primary-foreground/70"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="px-5 pb-10 flex gap-3">
+        <Button variant="secondary" className="flex-1" onClick={onCancel} disabled={processing}>
+          Retake
+        </Button>
+        <Button className="flex-1 gap-2" onClick={handleConfirm} disabled={processing || !corners}>
+          {processing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+          {processing ? 'Processing...' : 'Use Page'}
+        </Button>
+      </div>
+    </div>
+  );
+}
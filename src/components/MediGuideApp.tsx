@@ -1,11 +1,14 @@
-import React from 'react';
+import React, { useEffect } from 'react';
+import { Routes, Route, Navigate, Outlet, useLocation, useNavigate } from 'react-router-dom';
 import { useApp } from '@/contexts/AppContext';
+import { routes, routePatterns } from '@/lib/routes';
+import { onServiceWorkerNavigate } from '@/lib/pwa';
 import { MobileFrame } from './MobileFrame';
-import { SplashScreen } from './screens/SplashScreen';
 import { OnboardingScreen } from './screens/OnboardingScreen';
 import { ProfileSetupScreen } from './screens/ProfileSetupScreen';
 import { HomeScreen } from './screens/HomeScreen';
 import { HistoryScreen } from './screens/HistoryScreen';
+import { TrendsScreen } from './screens/TrendsScreen';
 import { ScanScreen } from './screens/ScanScreen';
 import { ScanningScreen } from './screens/ScanningScreen';
 import { ScanErrorScreen } from './screens/ScanErrorScreen';
@@ -17,48 +20,69 @@ import { ReportExplanationScreen } from './screens/ReportExplanationScreen';
 import { AuthModal } from './modals/AuthModal';
 import { NicknameModal } from './modals/NicknameModal';
 import { PremiumModal } from './modals/PremiumModal';
+import { OfflineBanner } from './OfflineBanner';
+import { SandboxBanner } from './SandboxBanner';
+import NotFound from '@/pages/NotFound';
+
+interface LocationState {
+  from?: { pathname: string; search?: string };
+}
+
+/**
+ * Routes that need a session; visitors are sent to the welcome screen and
+ * brought back to the link they opened once they sign in
+ */
+function RequireAuth() {
+  const { isLoggedIn } = useApp();
+  const location = useLocation();
+
+  if (!isLoggedIn) {
+    return <Navigate to={routes.welcome} replace state={{ from: location }} />;
+  }
+  return <Outlet />;
+}
+
+function PublicOnly({ children }: { children: React.ReactNode }) {
+  const { isLoggedIn } = useApp();
+  const location = useLocation();
+
+  if (isLoggedIn) {
+    const from = (location.state as LocationState | null)?.from;
+    return <Navigate to={from ? `${from.pathname}${from.search ?? ''}` : routes.home} replace />;
+  }
+  return <>{children}</>;
+}
 
 export function MediGuideApp() {
-  const { currentScreen } = useApp();
+  const navigate = useNavigate();
 
-  const renderScreen = () => {
-    switch (currentScreen) {
-      case 'splash':
-        return <SplashScreen />;
-      case 'onboarding':
-        return <OnboardingScreen />;
-      case 'profile-setup':
-        return <ProfileSetupScreen />;
-      case 'home':
-        return <HomeScreen />;
-      case 'history':
-        return <HistoryScreen />;
-      case 'scan':
-        return <ScanScreen />;
-      case 'scanning':
-        return <ScanningScreen />;
-      case 'scan-error':
-        return <ScanErrorScreen />;
-      case 'report-result':
-        return <ReportResultScreen />;
-      case 'family':
-        return <FamilyScreen />;
-      case 'add-family':
-        return <AddFamilyScreen />;
-      case 'profile':
-        return <ProfileScreen />;
-      case 'nickname-popup':
-        return <FamilyScreen />;
-      case 'report-explanation':
-        return <ReportExplanationScreen />;
-      default:
-        return <SplashScreen />;
-    }
-  };
+  // Notification clicks open their screen in this tab
+  useEffect(() => onServiceWorkerNavigate(navigate), [navigate]);
 
   return (
     <MobileFrame>
-      {renderScreen()}
+      <OfflineBanner />
+      <SandboxBanner />
+      <Routes>
+        <Route path={routes.welcome} element={<PublicOnly><OnboardingScreen /></PublicOnly>} />
+        <Route element={<RequireAuth />}>
+          <Route path={routes.home} element={<HomeScreen />} />
+          <Route path={routes.history} element={<HistoryScreen />} />
+          <Route path={routePatterns.memberHistory} element={<HistoryScreen />} />
+          <Route path={routePatterns.trends} element={<TrendsScreen />} />
+          <Route path={routePatterns.memberTrends} element={<TrendsScreen />} />
+          <Route path={routes.scan} element={<ScanScreen />} />
+          <Route path={routes.scanError} element={<ScanErrorScreen />} />
+          <Route path={routePatterns.report} element={<ReportResultScreen />} />
+          <Route path={routePatterns.reportProcessing} element={<ScanningScreen />} />
+          <Route path={routePatterns.reportExplanation} element={<ReportExplanationScreen />} />
+          <Route path={routes.family} element={<FamilyScreen />} />
+          <Route path={routes.addFamily} element={<AddFamilyScreen />} />
+          <Route path={routes.profile} element={<ProfileScreen />} />
+          <Route path={routes.profileSetup} element={<ProfileSetupScreen />} />
+        </Route>
+        <Route path="*" element={<NotFound />} />
+      </Routes>
       <AuthModal />
       <NicknameModal />
       <PremiumModal />
@@ -0,0 +1,35 @@
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+import { useOffline } from '@/contexts/OfflineContext';
+
+const formatSyncedAt = (iso: string) => {
+  const date = new Date(iso);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+};
+
+/**
+ * OfflineBanner component - Tells the user they are looking at cached data
+ * and how many of their changes are still waiting to sync
+ */
+export function OfflineBanner() {
+  const { isOnline, lastSyncedAt, pendingChanges } = useOffline();
+
+  if (isOnline) return null;
+
+  return (
+    <div
+      role="status"
+      className="absolute top-2 inset-x-4 z-50 flex items-center gap-2 px-3 py-2 rounded-xl bg-foreground/90 text-background shadow-lg pointer-events-none animate-fade-in"
+    >
+      <WifiOff className="w-4 h-4 shrink-0" />
+      <p className="text-caption leading-tight">
+        <span className="font-semibold">Offline</span>
+        {lastSyncedAt ? ` · last synced ${formatSyncedAt(lastSyncedAt)}` : ' · showing saved data'}
+        {pendingChanges > 0 && ` · ${pendingChanges} change${pendingChanges !== 1 ? 's' : ''} waiting to sync`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ExtractedParameter, ParameterFlag, ReportParameter } from '@/lib/api';
+import { flagForValue } from '@/lib/ranges';
+import { formatReading } from '@/lib/reports';
+
+interface ParameterEditSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The result to correct, or undefined to add one that extraction missed
+  parameter?: ReportParameter;
+  saving: boolean;
+  onSave: (parameter: ExtractedParameter) => void;
+}
+
+// Select items cannot have an empty value, so "auto" stands in for "work it out from the range"
+const AUTO_FLAG = 'auto';
+
+const FLAG_LABELS: Record<ParameterFlag, string> = {
+  normal: 'Normal',
+  high: 'High',
+  low: 'Low',
+};
+
+interface FormState {
+  name: string;
+  value: string;
+  unit: string;
+  normalRange: string;
+  flagChoice: string;
+}
+
+function formFrom(fields?: ExtractedParameter): FormState {
+  // A lab flag that disagrees with the printed range was set against another band; keep it
+  const computed = fields ? flagForValue(fields.value, fields.normal_range) : null;
+  return {
+    name: fields?.name ?? '',
+    value: fields?.value ?? '',
+    unit: fields?.unit ?? '',
+    normalRange: fields?.normal_range ?? '',
+    flagChoice: fields && computed !== fields.flag ? fields.flag : AUTO_FLAG,
+  };
+}
+
+/**
+ * ParameterEditSheet component - Sheet to correct an extracted result or add
+ * a missed one, entered as printed on the report
+ */
+export function ParameterEditSheet({ open, onOpenChange, parameter, saving, onSave }: ParameterEditSheetProps) {
+  const [form, setForm] = useState(() => formFrom());
+  const { name, value, unit, normalRange, flagChoice } = form;
+  const setField = (field: keyof FormState, text: string) => setForm(current => ({ ...current, [field]: text }));
+
+  useEffect(() => {
+    if (open) setForm(formFrom(parameter));
+  }, [open, parameter]);
+
+  const autoFlag = flagForValue(value, normalRange);
+  const flag = flagChoice === AUTO_FLAG ? autoFlag : (flagChoice as ParameterFlag);
+  const canSave = !!name.trim() && !!value.trim() && !!flag && !saving;
+
+  const handleSave = () => {
+    onSave({
+      name: name.trim(),
+      value: value.trim(),
+      unit: unit.trim() || null,
+      normal_range: normalRange.trim() || null,
+      flag,
+    });
+  };
+
+  const original = parameter?.original;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-2xl max-h-[85vh] overflow-y-auto">
+        <SheetHeader className="text-left">
+          <SheetTitle>{parameter ? 'Correct Result' : 'Add Missed Result'}</SheetTitle>
+          <SheetDescription>
+            Enter the result exactly as it is printed on the report, in the lab's units.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 py-5">
+          {original && (
+            <div className="flex items-center gap-3 rounded-lg bg-muted px-3 py-2">
+              <p className="flex-1 text-body-sm text-text-secondary">
+                Originally read as {original.name}: {formatReading(original)}, {FLAG_LABELS[original.flag].toLowerCase()}
+              </p>
+              <Button variant="ghost" size="sm" className="gap-1.5 shrink-0" onClick={() => setForm(formFrom(original))}>
+                <RotateCcw className="w-4 h-4" />
+                Restore
+              </Button>
+            </div>
+          )}
+
+          {/* Test name */}
+          <div className="space-y-2">
+            <Label htmlFor="parameter-name">Test name</Label>
+            <Input
+              id="parameter-name"
+              value={name}
+              onChange={(e) => setField('name', e.target.value)}
+              placeholder="e.g. Fasting Blood Sugar"
+            />
+          </div>
+
+          {/* Value and unit */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="parameter-value">Result</Label>
+              <Input
+                id="parameter-value"
+                value={value}
+                onChange={(e) => setField('value', e.target.value)}
+                placeholder="e.g. 98"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="parameter-unit">Unit</Label>
+              <Input
+                id="parameter-unit"
+                value={unit}
+                onChange={(e) => setField('unit', e.target.value)}
+                placeholder="e.g. mg/dL"
+              />
+            </div>
+          </div>
+
+          {/* Reference range */}
+          <div className="space-y-2">
+            <Label htmlFor="parameter-range">Reference range</Label>
+            <Input
+              id="parameter-range"
+              value={normalRange}
+              onChange={(e) => setField('normalRange', e.target.value)}
+              placeholder="e.g. 70 - 100"
+            />
+          </div>
+
+          {/* Flag */}
+          <div className="space-y-2">
+            <Label>Flag</Label>
+            <Select value={flagChoice} onValueChange={(choice) => setField('flagChoice', choice)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_FLAG}>
+                  From the range{autoFlag ? ` (${FLAG_LABELS[autoFlag]})` : ''}
+                </SelectItem>
+                {(Object.keys(FLAG_LABELS) as ParameterFlag[]).map(option => (
+                  <SelectItem key={option} value={option}>{FLAG_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {flagChoice === AUTO_FLAG && !autoFlag && (
+              <p className="text-caption text-text-tertiary">
+                This result can't be compared with its range, so choose the flag yourself.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <Button size="lg" className="w-full gap-2" onClick={handleSave} disabled={!canSave}>
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          {parameter ? 'Save Correction' : 'Add Result'}
+        </Button>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+
+interface PdfPageSelectorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  thumbnails: string[];
+  selectedPages: number[];
+  rotation: number;
+  onConfirm: (selectedPages: number[]) => void;
+}
+
+/**
+ * PdfPageSelector component - Thumbnail grid for choosing which pages of a PDF
+ * go into the report
+ */
+export function PdfPageSelector({ open, onOpenChange, fileName, thumbnails, selectedPages, rotation, onConfirm }: PdfPageSelectorProps) {
+  const [selection, setSelection] = useState<number[]>(selectedPages);
+
+  useEffect(() => {
+    if (open) setSelection(selectedPages);
+  }, [open, selectedPages]);
+
+  const togglePage = (pageNumber: number) => {
+    setSelection(prev => prev.includes(pageNumber)
+      ? prev.filter(p => p !== pageNumber)
+      : [...prev, pageNumber].sort((a, b) => a - b));
+  };
+
+  const allSelected = selection.length === thumbnails.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Choose Pages</DialogTitle>
+          <DialogDescription className="truncate">{fileName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between">
+          <span className="text-body-sm text-text-secondary">
+            {selection.length} of {thumbnails.length} selected
+          </span>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setSelection(allSelected ? [] : thumbnails.map((_, i) => i + 1))}
+          >
+            {allSelected ? 'Clear' : 'Select All'}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 overflow-y-auto py-1">
+          {thumbnails.map((thumbnail, index) => {
+            const pageNumber = index + 1;
+            const selected = selection.includes(pageNumber);
+            return (
+              <button
+                key={pageNumber}
+                onClick={() => togglePage(pageNumber)}
+                className={cn(
+                  "relative aspect-[3/4] rounded-lg overflow-hidden border-2 bg-muted flex items-center justify-center transition-opacity",
+                  selected ? "border-primary" : "border-transparent opacity-50"
+                )}
+              >
+                <img
+                  src={thumbnail}
+                  alt={`Page ${pageNumber}`}
+                  className="max-w-full max-h-full object-contain"
+                  style={{ transform: `rotate(${rotation}deg)` }}
+                />
+                <span className="absolute bottom-1 left-1 min-w-5 h-5 px-1 rounded bg-black/60 text-[11px] leading-5 text-center text-primary-foreground">
+                  {pageNumber}
+                </span>
+                {selected && (
+                  <span className="absolute top-1 right-1 w-5 h-5 rounded-full bg-primary flex items-center justify-center">
+                    <Check className="w-3 h-3 text-primary-foreground" />
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button className="w-full" disabled={selection.length === 0} onClick={() => onConfirm(selection)}>
+            Use {selection.length} Page{selection.length === 1 ? '' : 's'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { ProcessingReport } from '@/contexts/ProcessingContext';
+import { stageLabels } from '@/lib/status';
+import { routes } from '@/lib/routes';
+
+interface ProcessingReportCardProps {
+  report: ProcessingReport;
+}
+
+/**
+ * ProcessingReportCard component - Placeholder card for a report that is still
+ * being analysed; tapping it reopens the progress screen
+ */
+export function ProcessingReportCard({ report }: ProcessingReportCardProps) {
+  const navigate = useNavigate();
+
+  const handleClick = () => {
+    navigate(routes.reportProcessing(report.reportId));
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      className="w-full card-elevated p-4 flex gap-4 text-left animate-fade-in"
+    >
+      <div className="w-16 h-16 rounded-xl bg-primary/5 flex items-center justify-center shrink-0">
+        <Loader2 className="w-7 h-7 text-primary animate-spin" />
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <p className="text-caption text-text-tertiary">
+          {new Date(report.startedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+          {' • '}
+          {report.pageCount} page{report.pageCount !== 1 ? 's' : ''}
+        </p>
+        <p className="text-section text-foreground font-semibold truncate">{report.label}</p>
+        <p className="text-body-sm text-text-secondary truncate">
+          {report.stage ? stageLabels[report.stage] : 'Processing'}...
+        </p>
+        <div className="w-full h-1 bg-muted rounded-full overflow-hidden mt-2">
+          <div
+            className="h-full bg-gradient-primary transition-all duration-300 ease-out"
+            style={{ width: `${Math.max(report.progress, 5)}%` }}
+          />
+        </div>
+      </div>
+    </button>
+  );
+}
@@ -0,0 +1,66 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { gaugeScale, RangeAssessment, ReferenceRange, Severity } from '@/lib/ranges';
+
+interface RangeGaugeProps {
+  value: number;
+  range: ReferenceRange;
+  assessment: RangeAssessment;
+  className?: string;
+}
+
+const markerColors: Record<Severity, string> = {
+  normal: 'bg-success',
+  mild: 'bg-warning',
+  moderate: 'bg-destructive',
+  critical: 'bg-destructive ring-4 ring-destructive/30',
+};
+
+const severityLabels: Record<Severity, string> = {
+  normal: 'Within range',
+  mild: 'Mild',
+  moderate: 'Moderate',
+  critical: 'Critical',
+};
+
+/**
+ * RangeGauge component - Bullet bar placing a result against its reference range
+ */
+export function RangeGauge({ value, range, assessment, className }: RangeGaugeProps) {
+  const { min, max } = gaugeScale(value, range);
+  const position = (point: number) => `${Math.min(100, Math.max(0, ((point - min) / (max - min)) * 100))}%`;
+
+  const bandStart = position(range.low ?? min);
+  const bandEnd = position(range.high ?? max);
+  const { severity, direction, deviation, fromLab } = assessment;
+
+  return (
+    <div className={cn("w-full", className)}>
+      <div className="relative h-2 rounded-full bg-muted">
+        <div
+          className="absolute inset-y-0 rounded-full bg-success/30"
+          style={{ left: bandStart, right: `calc(100% - ${bandEnd})` }}
+        />
+        <div
+          className={cn("absolute top-1/2 w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-card", markerColors[severity])}
+          style={{ left: position(value) }}
+        />
+      </div>
+      <p className={cn(
+        "text-caption mt-1.5",
+        severity === 'normal' ? "text-text-tertiary" : "text-text-secondary font-medium"
+      )}>
+        {fromLab && direction === 'normal' ? (
+          // The marker sits outside the band, so say why it is still green
+          "The lab marked this normal, though it is outside the printed range"
+        ) : (
+          <>
+            {severityLabels[severity]}
+            {deviation > 0 && ` • ${Math.max(1, Math.round(deviation))}% ${direction === 'high' ? 'above' : 'below'} range`}
+            {fromLab && ` • flagged ${direction} by the lab`}
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
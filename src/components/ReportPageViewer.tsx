@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronLeft, ChevronRight, FileText } from 'lucide-react';
+import { cn, getStorageUrl } from '@/lib/utils';
+import { CachedImage } from '@/components/CachedImage';
+
+interface ReportPageViewerProps {
+  pages: string[];
+}
+
+/**
+ * ReportPageViewer component - Page-by-page viewer for the scanned report images
+ */
+export function ReportPageViewer({ pages }: ReportPageViewerProps) {
+  const [pageIndex, setPageIndex] = useState(0);
+
+  // Reset when a different report is shown
+  useEffect(() => {
+    setPageIndex(0);
+  }, [pages.length]);
+
+  if (pages.length === 0) return null;
+
+  const hasMultiplePages = pages.length > 1;
+  const currentPage = Math.min(pageIndex, pages.length - 1);
+
+  return (
+    <div className="mb-8 animate-fade-in relative z-10">
+      <div className="flex items-center justify-between mb-3 px-1">
+        <h3 className="text-body-lg font-semibold text-foreground flex items-center gap-2">
+          <FileText className="w-5 h-5 text-primary" />
+          Original Report
+        </h3>
+        <span className="text-caption text-text-tertiary bg-muted px-2 py-1 rounded-md">
+          {hasMultiplePages ? `Page ${currentPage + 1} of ${pages.length}` : 'Scanned Image'}
+        </span>
+      </div>
+
+      <div className="rounded-2xl overflow-hidden border border-border/60 bg-card shadow-sm relative min-h-[250px] flex items-center justify-center group transition-all hover:shadow-md">
+        {/* Pattern Background for premium feel */}
+        <div className="absolute inset-0 bg-grid-pattern opacity-[0.03] pointer-events-none" />
+
+        {/* Fallback Icon */}
+        <FileText className="w-16 h-16 text-text-tertiary/20 absolute z-0" />
+
+        {/* Image */}
+        <CachedImage
+          key={pages[currentPage]}
+          src={getStorageUrl(pages[currentPage])}
+          alt={`Original Report - Page ${currentPage + 1}`}
+          className="w-full h-auto max-h-[500px] object-contain mx-auto relative z-10 transition-transform duration-300 group-hover:scale-[1.01]"
+          onError={(e) => e.currentTarget.style.display = 'none'}
+        />
+
+        {/* Page Navigation */}
+        {hasMultiplePages && (
+          <>
+            <button
+              onClick={() => setPageIndex(Math.max(currentPage - 1, 0))}
+              disabled={currentPage === 0}
+              className="absolute left-2 top-1/2 -translate-y-1/2 z-20 w-9 h-9 rounded-full bg-card/90 shadow-md flex items-center justify-center disabled:opacity-30"
+            >
+              <ChevronLeft className="w-5 h-5 text-foreground" />
+            </button>
+            <button
+              onClick={() => setPageIndex(Math.min(currentPage + 1, pages.length - 1))}
+              disabled={currentPage === pages.length - 1}
+              className="absolute right-2 top-1/2 -translate-y-1/2 z-20 w-9 h-9 rounded-full bg-card/90 shadow-md flex items-center justify-center disabled:opacity-30"
+            >
+              <ChevronRight className="w-5 h-5 text-foreground" />
+            </button>
+          </>
+        )}
+
+        {/* Overlay Gradient (bottom) */}
+        <div className="absolute bottom-0 left-0 right-0 h-16 bg-gradient-to-t from-black/5 to-transparent pointer-events-none opacity-50" />
+      </div>
+
+      {/* Page Dots */}
+      {hasMultiplePages && (
+        <div className="flex items-center justify-center gap-1.5 mt-3">
+          {pages.map((page, index) => (
+            <button
+              key={`${page}-${index}`}
+              onClick={() => setPageIndex(index)}
+              className={cn(
+                "h-1.5 rounded-full transition-all",
+                index === currentPage ? "w-5 bg-primary" : "w-1.5 bg-muted-foreground/30"
+              )}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
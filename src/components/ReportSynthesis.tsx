@@ -1,63 +1,30 @@
-import React, { useState, useEffect } from 'react';
-import { getReportSynthesis, generateReportSynthesis } from '@/lib/api';
+import React, { useEffect } from 'react';
 import { Loader2, TrendingUp, FileCheck, Stethoscope, AlertCircle, RefreshCw, Zap } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
+import { logger } from '@/lib/logger';
+import { useSynthesis, useGenerateSynthesis } from '@/hooks/use-reports';
 
 interface ReportSynthesisProps {
     reportId: string;
 }
 
 export function ReportSynthesis({ reportId }: ReportSynthesisProps) {
-    const [synthesis, setSynthesis] = useState<{
-        status_summary: string;
-        key_trends: string[];
-        doctor_precis: string;
-        status?: string;
-    } | null>(null);
-
-    const [loading, setLoading] = useState(true);
-    const [isGenerating, setIsGenerating] = useState(false);
-
-    const fetchSynthesis = async () => {
-        try {
-            setLoading(true);
-            const data = await getReportSynthesis(reportId);
-            setSynthesis(data);
-        } catch (err) {
-            console.error(err);
-        } finally {
-            setLoading(false);
-        }
-    };
+    const { data: synthesis, isPending: loading, error } = useSynthesis(reportId);
+    const generateSynthesis = useGenerateSynthesis(reportId);
+    const isGenerating = generateSynthesis.isPending;
 
     useEffect(() => {
-        if (reportId) {
-            fetchSynthesis();
-        }
-    }, [reportId]);
-
-    // Poll for updates if pending
-    useEffect(() => {
-        if (synthesis?.status === 'pending') {
-            const interval = setInterval(fetchSynthesis, 3000); // Poll every 3s
-            return () => clearInterval(interval);
-        }
-    }, [synthesis?.status]);
-
-    const handleRetry = async () => {
-        try {
-            setIsGenerating(true);
-            toast.info("Starting fresh analysis...");
-            await generateReportSynthesis(reportId);
-            // After triggering, fetch immediately to see "pending" status
-            await fetchSynthesis();
-        } catch (err) {
-            toast.error("Failed to start analysis");
-        } finally {
-            setIsGenerating(false);
-        }
+        if (error) logger.error('Failed to load synthesis:', error);
+    }, [error]);
+
+    const handleRetry = () => {
+        toast.info("Starting fresh analysis...");
+        // Settling refetches the synthesis, which polls while it is pending
+        generateSynthesis.mutate(undefined, {
+            onError: () => toast.error("Failed to start analysis"),
+        });
     };
 
     if (loading && !synthesis) {
@@ -0,0 +1,20 @@
+import React from 'react';
+import { FlaskConical } from 'lucide-react';
+import { isSandbox } from '@/lib/sandbox-mode';
+
+/**
+ * SandboxBanner component - Marks sample data, so a demo is never mistaken for real results
+ */
+export function SandboxBanner() {
+  if (!isSandbox) return null;
+
+  return (
+    <div
+      role="note"
+      className="absolute top-2 right-2 z-40 flex items-center gap-1 px-2 py-1 rounded-full bg-warning-light text-warning text-caption font-semibold pointer-events-none"
+    >
+      <FlaskConical className="w-3.5 h-3.5" />
+      Sample data
+    </div>
+  );
+}
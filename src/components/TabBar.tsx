@@ -1,18 +1,24 @@
 import React from 'react';
 import { Home, FileText, Users, User, Plus } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { useApp, Tab } from '@/contexts/AppContext';
+import { routes } from '@/lib/routes';
 import { cn } from '@/lib/utils';
 
 export function TabBar() {
-  const { activeTab, setActiveTab, setCurrentScreen } = useApp();
+  const { activeTab } = useApp();
+  const navigate = useNavigate();
+
+  const tabRoutes: Record<Tab, string> = {
+    home: routes.home,
+    history: routes.history,
+    scan: routes.scan,
+    family: routes.family,
+    profile: routes.profile,
+  };
 
   const handleTabChange = (tab: Tab) => {
-    setActiveTab(tab);
-    if (tab === 'scan') {
-      setCurrentScreen('scan');
-    } else {
-      setCurrentScreen(tab);
-    }
+    navigate(tabRoutes[tab]);
   };
 
   const tabs = [
@@ -0,0 +1,141 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FamilyMember, UploadDetails } from '@/lib/api';
+import { REPORT_TYPES } from '@/lib/reports';
+import { logger } from '@/lib/logger';
+import { useFamilyMembers } from '@/hooks/use-family';
+
+interface UploadDetailsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // targetName is the chosen family member's name, or undefined for the user's own report
+  onConfirm: (details: UploadDetails, targetName?: string) => void;
+  pageCount: number;
+  defaultMemberId?: string;
+}
+
+// Select items cannot have an empty value, so "detect"/"me" stand in for "not set"
+const AUTO_DETECT = 'auto';
+const SELF = 'self';
+
+const memberName = (member: FamilyMember) =>
+  member.display_name || member.profile_name || 'Family member';
+
+/**
+ * UploadDetailsSheet component - Pre-upload sheet to confirm report type, lab,
+ * collection date and whose report it is
+ */
+export function UploadDetailsSheet({ open, onOpenChange, onConfirm, pageCount, defaultMemberId }: UploadDetailsSheetProps) {
+  const [reportType, setReportType] = useState(AUTO_DETECT);
+  const [labName, setLabName] = useState('');
+  const [collectionDate, setCollectionDate] = useState('');
+  const [memberId, setMemberId] = useState(SELF);
+  const familyMembers = useFamilyMembers({ enabled: open });
+  const loadingMembers = familyMembers.isPending && familyMembers.fetchStatus !== 'idle';
+  const members = useMemo(
+    () => (familyMembers.data ?? []).filter(m => m.connection_status === 'connected'),
+    [familyMembers.data]
+  );
+
+  useEffect(() => {
+    if (open) setMemberId(defaultMemberId || SELF);
+  }, [open, defaultMemberId]);
+
+  useEffect(() => {
+    if (familyMembers.error) logger.error('Failed to load family members:', familyMembers.error);
+  }, [familyMembers.error]);
+
+  const handleConfirm = () => {
+    const member = members.find(m => m.user_id === memberId);
+    onConfirm({
+      reportType: reportType === AUTO_DETECT ? undefined : reportType,
+      labName: labName.trim() || undefined,
+      collectionDate: collectionDate || undefined,
+      targetUserId: memberId === SELF ? undefined : memberId,
+    }, member ? memberName(member) : undefined);
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="rounded-t-2xl max-h-[85vh] overflow-y-auto">
+        <SheetHeader className="text-left">
+          <SheetTitle>Report Details</SheetTitle>
+          <SheetDescription>
+            Confirm what you are uploading. Anything left blank is read from the report.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 py-5">
+          {/* Whose report */}
+          <div className="space-y-2">
+            <Label>Whose report is this?</Label>
+            <Select value={memberId} onValueChange={setMemberId} disabled={loadingMembers}>
+              <SelectTrigger>
+                <SelectValue placeholder="Me" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SELF}>Me</SelectItem>
+                {members.map(member => (
+                  <SelectItem key={member.connection_id} value={member.user_id}>
+                    {memberName(member)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Report type */}
+          <div className="space-y-2">
+            <Label>Report type</Label>
+            <Select value={reportType} onValueChange={setReportType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_DETECT}>Detect automatically</SelectItem>
+                {REPORT_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Lab name */}
+          <div className="space-y-2">
+            <Label htmlFor="upload-lab-name">Lab name</Label>
+            <Input
+              id="upload-lab-name"
+              value={labName}
+              onChange={(e) => setLabName(e.target.value)}
+              placeholder="e.g. CityLab Diagnostics"
+            />
+          </div>
+
+          {/* Collection date */}
+          <div className="space-y-2">
+            <Label htmlFor="upload-collection-date">Collection date</Label>
+            <Input
+              id="upload-collection-date"
+              type="date"
+              max={today}
+              value={collectionDate}
+              onChange={(e) => setCollectionDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <Button size="lg" className="w-full gap-2" onClick={handleConfirm} disabled={loadingMembers}>
+          {loadingMembers ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Upload {pageCount} Page{pageCount > 1 ? 's' : ''}
+        </Button>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,22 +1,24 @@
 import React, { useState } from 'react';
 import { X, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { useApp } from '@/contexts/AppContext';
+import { routes } from '@/lib/routes';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { signIn, signUp, signUpWithOTP, verifyOTP, resendOTP, updatePassword } from '@/lib/auth';
 import { toast } from 'sonner';
 import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { logger } from '@/lib/logger';
 
 export function AuthModal() {
   const {
     showAuthModal,
     setShowAuthModal,
     authMode,
-    setCurrentScreen,
-    setActiveTab,
     setIsLoggedIn,
     fetchUserProfile
   } = useApp();
+  const navigate = useNavigate();
 
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -149,9 +151,8 @@ export function AuthModal() {
             description: 'Successfully logged in',
           });
           setShowAuthModal(false);
+          // The welcome route then forwards to the link that asked for sign-in, or home
           setIsLoggedIn(true);
-          setCurrentScreen('home');
-          setActiveTab('home');
         }
       }
     } catch (err) {
@@ -259,7 +260,7 @@ export function AuthModal() {
         if (pendingPassword) {
           const { error: passwordError } = await updatePassword(pendingPassword);
           if (passwordError) {
-            console.error('Failed to set password:', passwordError);
+            logger.error('Failed to set password:', passwordError);
             // Continue anyway - user can set password later
           }
         }
@@ -273,7 +274,7 @@ export function AuthModal() {
         setShowAuthModal(false);
         setShowOTPInput(false);
         setIsLoggedIn(true);
-        setCurrentScreen('profile-setup');
+        navigate(routes.profileSetup, { replace: true });
       }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useApp } from '@/contexts/AppContext';
+import { routes } from '@/lib/routes';
 import { ArrowLeft, QrCode, Mail, Smartphone, ScanLine, Send } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
-import { inviteFamilyMember } from '@/lib/api';
+import { useInviteFamilyMember } from '@/hooks/use-family';
 import QRCode from "react-qr-code";
 import { Scanner } from '@yudiel/react-qr-scanner';
 import {
@@ -20,7 +22,9 @@ import { Loader2 } from 'lucide-react';
 type Mode = 'select' | 'qr' | 'email' | 'phone';
 
 export function AddFamilyScreen() {
-  const { user, setCurrentScreen, setActiveTab } = useApp();
+  const { user } = useApp();
+  const navigate = useNavigate();
+  const inviteMember = useInviteFamilyMember();
   const [mode, setMode] = useState<Mode>('select');
   const [inputValue, setInputValue] = useState('');
   const [isScanning, setIsScanning] = useState(false);
@@ -29,8 +33,7 @@ export function AddFamilyScreen() {
 
   const handleBack = () => {
     if (mode === 'select') {
-      setActiveTab('family');
-      setCurrentScreen('family');
+      navigate(routes.family);
     } else {
       setMode('select');
       setInputValue('');
@@ -49,8 +52,8 @@ export function AddFamilyScreen() {
 
   const submitInvite = async (data: { email?: string, phone_number?: string, target_user_id?: string }) => {
     try {
-      await inviteFamilyMember(data);
-      toast.success('Invitation sent successfully!');
+      const { queued } = await inviteMember.mutateAsync(data);
+      toast.success(queued ? "You're offline. The invitation will be sent once you reconnect." : 'Invitation sent successfully!');
       setTimeout(() => {
         handleBack();
       }, 1000);
@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useApp } from '@/contexts/AppContext';
+import { routes } from '@/lib/routes';
 import { TabBar } from '@/components/TabBar';
 import { Plus, Clock, Check, User, Pencil, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { getFamilyMembers, acceptFamilyConnection, FamilyMember } from '@/lib/api';
+import { FamilyMember } from '@/lib/api';
 import { toast } from 'sonner';
 import {
   Dialog,
@@ -14,11 +16,15 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import { logger } from '@/lib/logger';
+import { describeError } from '@/lib/errors';
+import { useFamilyMembers, useAcceptFamilyConnection } from '@/hooks/use-family';
 
 export function FamilyScreen() {
-  const { setCurrentScreen, setShowNicknameModal, setSelectedFamilyMember, setViewingMember, setActiveTab } = useApp();
-  const [members, setMembers] = useState<FamilyMember[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { setShowNicknameModal, setSelectedFamilyMember, setViewingMember } = useApp();
+  const navigate = useNavigate();
+  const { data: members = [], isPending: loading, error: loadError } = useFamilyMembers();
+  const acceptConnection = useAcceptFamilyConnection();
 
   // Drag to scroll state
   const scrollContainerRef = React.useRef<HTMLDivElement>(null);
@@ -65,22 +71,11 @@ export function FamilyScreen() {
   const [acceptingMember, setAcceptingMember] = useState<FamilyMember | null>(null);
   const [aliasInput, setAliasInput] = useState('');
 
-  const fetchMembers = async () => {
-    try {
-      setLoading(true);
-      const data = await getFamilyMembers();
-      setMembers(data);
-    } catch (err) {
-      console.error(err);
-      toast.error('Failed to load family members');
-    } finally {
-      setLoading(false);
-    }
-  };
-
   useEffect(() => {
-    fetchMembers();
-  }, []);
+    if (!loadError) return;
+    logger.error('Failed to load family members:', loadError);
+    toast.error(describeError(loadError, 'Failed to load family members'));
+  }, [loadError]);
 
   const initiateAccept = (member: FamilyMember) => {
     setAcceptingMember(member);
@@ -88,17 +83,19 @@ export function FamilyScreen() {
     setAliasInput(member.display_name || member.profile_name || '');
   };
 
-  const confirmAccept = async () => {
+  const confirmAccept = () => {
     if (!acceptingMember) return;
-    try {
-      await acceptFamilyConnection(acceptingMember.connection_id, aliasInput);
-      toast.success('Connection accepted');
-      setAcceptingMember(null);
-      fetchMembers();
-    } catch (err: any) {
-      console.error(err);
-      toast.error('Failed to accept connection');
-    }
+    // Success refetches the member list and the shared reports
+    acceptConnection.mutate({ connectionId: acceptingMember.connection_id, displayName: aliasInput }, {
+      onSuccess: () => {
+        toast.success('Connection accepted');
+        setAcceptingMember(null);
+      },
+      onError: (err) => {
+        logger.error('Failed to accept connection:', err);
+        toast.error(describeError(err, 'Failed to accept connection'));
+      },
+    });
   };
 
   const handleEditNickname = (memberId: string, memberName: string) => {
@@ -147,8 +144,7 @@ export function FamilyScreen() {
                       return;
                     }
                     setViewingMember(member);
-                    setCurrentScreen('history');
-                    setActiveTab('history');
+                    navigate(routes.memberHistory(member.user_id));
                   }}
                   className="flex flex-col items-center shrink-0 animate-fade-in"
                   style={{ animationDelay: `${index * 100}ms` }}
@@ -168,7 +164,7 @@ export function FamilyScreen() {
 
               {/* Add Button */}
               <button
-                onClick={() => setCurrentScreen('add-family')}
+                onClick={() => navigate(routes.addFamily)}
                 className="flex flex-col items-center shrink-0 animate-fade-in delay-300"
               >
                 <div className="w-20 h-20 rounded-full bg-muted border-2 border-dashed border-border flex items-center justify-center">
@@ -232,7 +228,7 @@ export function FamilyScreen() {
         <Button
           size="lg"
           className="w-full"
-          onClick={() => setCurrentScreen('add-family')}
+          onClick={() => navigate(routes.addFamily)}
         >
           <Plus className="w-5 h-5 mr-2" />
           Add Member
@@ -259,7 +255,7 @@ export function FamilyScreen() {
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setAcceptingMember(null)}>Cancel</Button>
-            <Button onClick={confirmAccept}>Confirm</Button>
+            <Button onClick={confirmAccept} disabled={acceptConnection.isPending}>Confirm</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
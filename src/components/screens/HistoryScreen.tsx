@@ -9,19 +9,31 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
 import { useApp } from '@/contexts/AppContext';
+import { useProcessing } from '@/contexts/ProcessingContext';
+import { ProcessingReportCard } from '@/components/ProcessingReportCard';
+import { CachedImage } from '@/components/CachedImage';
 import { TabBar } from '@/components/TabBar';
 import { Search, MoreVertical, FileText, Check, ChevronDown, Trash2 } from 'lucide-react';
 
 import { cn, getStorageUrl } from '@/lib/utils';
-import { listReports, deleteReport, renameFamilyConnection } from '@/lib/api';
 import { toast } from 'sonner';
+import { REPORT_TYPES } from '@/lib/reports';
+import { routes } from '@/lib/routes';
+import { describeError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { useReports, useDeleteReports } from '@/hooks/use-reports';
+import { useFamilyMembers, useRenameFamilyMember } from '@/hooks/use-family';
 
 export function HistoryScreen() {
-  const { setCurrentScreen, setCurrentReportId, viewingMember, setViewingMember } = useApp();
-  const [reports, setReports] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { viewingMember, setViewingMember } = useApp();
+  const { memberId } = useParams<{ memberId?: string }>();
+  const navigate = useNavigate();
+  const { processingReports } = useProcessing();
+  const deleteReports = useDeleteReports();
+  const renameMember = useRenameFamilyMember();
   const [searchQuery, setSearchQuery] = useState('');
   const [showMenu, setShowMenu] = useState(false);
   const [selectedReports, setSelectedReports] = useState<string[]>([]);
@@ -35,57 +47,66 @@ export function HistoryScreen() {
   const [openFilter, setOpenFilter] = useState<string | null>(null);
 
   const filterOptions = {
-    type: ['All Types', 'CBC', 'BMP', 'CMP', 'Lipid Panel', 'LFT', 'HbA1c', 'Thyroid', 'Urine', 'Stool', 'Genetic', 'Other'],
+    type: ['All Types', ...REPORT_TYPES],
     flag: ['All', 'Red', 'Yellow', 'Green'],
     time: ['All Time', 'Last 7 Days', 'Last Month', 'Last 3 Months'],
   };
 
+  // The member comes from the URL, so shared links and reloads open the right history
+  const familyMembers = useFamilyMembers({ enabled: !!memberId });
+
   useEffect(() => {
-    const loadReports = async () => {
-      try {
-        setLoading(true);
-        const result = await listReports({
-          page: 1,
-          limit: 50,
-
-          report_type: filters.type !== 'All Types' ? filters.type : undefined,
-          flag_level: filters.flag !== 'All' ? filters.flag.toLowerCase() as 'green' | 'yellow' | 'red' : undefined,
-          time_range: filters.time === 'All Time' ? 'all' :
-            filters.time === 'Last 7 Days' ? '7d' :
-              filters.time === 'Last Month' ? '30d' :
-                filters.time === 'Last 3 Months' ? '90d' : 'all',
-          status: 'completed',
-          user_id: viewingMember?.user_id,
-        });
-
-        // Transform backend format to frontend format
-        const transformedReports = result.items.map((r: any) => ({
-          id: r.id,
-          date: new Date(r.date || r.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
-          type: r.type,
-          labName: r.lab_name || 'Unknown Lab',
-          flagLevel: r.flag_level,
-          uploadedToABDM: r.uploaded_to_abdm || false,
-          imageUrl: r.image_url,
-        }));
-
-        setReports(transformedReports);
-      } catch (error: any) {
-        console.error('Failed to load reports:', error);
-        toast.error('Failed to load reports. Please try again.');
-      } finally {
-        setLoading(false);
-      }
-    };
+    if (!memberId) {
+      setViewingMember(null);
+      return;
+    }
+    if (!familyMembers.data) return;
 
-    loadReports();
-  }, [filters, viewingMember]); // Reload when viewingMember changes
+    const member = familyMembers.data.find(m => m.user_id === memberId && m.connection_status === 'connected');
+    if (member) {
+      setViewingMember(member);
+    } else {
+      toast.error('Family member not found');
+      navigate(routes.family, { replace: true });
+    }
+  }, [memberId, familyMembers.data, setViewingMember, navigate]);
 
-  // Extract loadReports to allow manual refresh if needed, but for now relying on filters update is hacky.
-  // Better: add a refresh trigger.
-  const refreshReports = () => {
-    setFilters({ ...filters }); // Trigger useEffect
-  };
+  useEffect(() => {
+    if (familyMembers.error) logger.error('Failed to load family member:', familyMembers.error);
+  }, [familyMembers.error]);
+
+  // Finished uploads invalidate this query, so new reports appear without a manual refresh
+  const reportsQuery = useReports({
+    page: 1,
+    limit: 50,
+
+    report_type: filters.type !== 'All Types' ? filters.type : undefined,
+    flag_level: filters.flag !== 'All' ? filters.flag.toLowerCase() as 'green' | 'yellow' | 'red' : undefined,
+    time_range: filters.time === 'All Time' ? 'all' :
+      filters.time === 'Last 7 Days' ? '7d' :
+        filters.time === 'Last Month' ? '30d' :
+          filters.time === 'Last 3 Months' ? '90d' : 'all',
+    status: 'completed',
+    user_id: memberId,
+  });
+  const loading = reportsQuery.isPending;
+
+  useEffect(() => {
+    if (!reportsQuery.error) return;
+    logger.error('Failed to load reports:', reportsQuery.error);
+    toast.error(describeError(reportsQuery.error, 'Failed to load reports. Please try again.'));
+  }, [reportsQuery.error]);
+
+  // Transform backend format to frontend format
+  const reports = useMemo(() => (reportsQuery.data?.items ?? []).map((r) => ({
+    id: r.id,
+    date: new Date(r.date || r.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
+    type: r.type,
+    labName: r.lab_name || 'Unknown Lab',
+    flagLevel: r.flag_level,
+    uploadedToABDM: r.uploaded_to_abdm || false,
+    imageUrl: r.image_url,
+  })), [reportsQuery.data]);
 
   const flagColors = {
     green: 'bg-success',
@@ -101,8 +122,7 @@ export function HistoryScreen() {
         setSelectedReports([...selectedReports, reportId]);
       }
     } else {
-      setCurrentReportId(reportId);
-      setCurrentScreen('report-result');
+      navigate(routes.report(reportId));
     }
   };
 
@@ -114,30 +134,25 @@ export function HistoryScreen() {
     setShowMenu(false);
   };
 
-  const performDelete = async () => {
-    if (viewingMember) {
+  const performDelete = () => {
+    if (memberId) {
       toast.error('Cannot delete shared reports');
       return;
     }
     // No need for confirm here, handled by AlertDialog
 
-    try {
-      setLoading(true);
-      await Promise.all(selectedReports.map(id => deleteReport(id)));
-
-      // Optimistic update: remove deleted reports from local state immediately
-      setReports(prevReports => prevReports.filter(r => !selectedReports.includes(r.id)));
-
-      toast.success('Reports deleted successfully');
-      setIsDeleteMode(false);
-      setSelectedReports([]);
-      // refreshReports(); // No longer needed if optimistic update works
-    } catch (err) {
-      console.error(err);
-      toast.error('Failed to delete reports');
-    } finally {
-      setLoading(false);
-    }
+    // The list drops the reports straight away and restores them if the delete fails
+    deleteReports.mutate(selectedReports, {
+      onSuccess: ({ queued }) => {
+        toast.success(queued ? "Reports removed; the delete will sync when you're back online" : 'Reports deleted successfully');
+        setIsDeleteMode(false);
+        setSelectedReports([]);
+      },
+      onError: (err) => {
+        logger.error('Failed to delete reports:', err);
+        toast.error(describeError(err, 'Failed to delete reports'));
+      },
+    });
   };
 
   const filteredReports = reports.filter(report =>
@@ -145,6 +160,11 @@ export function HistoryScreen() {
     report.labName.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  // The list only holds completed reports; in-flight ones for this person are shown above it
+  const pendingReports = processingReports.filter(report =>
+    (report.targetUserId ?? null) === (memberId ?? null)
+  );
+
   return (
     <div className="absolute inset-0 bg-background overflow-hidden flex flex-col">
       {/* Header */}
@@ -160,7 +180,7 @@ export function HistoryScreen() {
               <div className="flex flex-col">
                 <span className="text-caption text-text-tertiary">{viewingMember.profile_name}</span>
                 <button
-                  onClick={() => setViewingMember(null)}
+                  onClick={() => navigate(routes.history)}
                   className="text-body-sm text-primary text-left mt-1"
                 >
                   Back to my reports
@@ -176,7 +196,13 @@ export function HistoryScreen() {
               <MoreVertical className="w-5 h-5 text-primary" />
 
               {showMenu && (
-                <div className="absolute top-full right-0 mt-1 w-28 bg-card rounded-lg shadow-lg border border-border overflow-hidden z-50">
+                <div className="absolute top-full right-0 mt-1 w-36 bg-card rounded-lg shadow-lg border border-border overflow-hidden z-50">
+                  <button
+                    onClick={() => navigate(routes.trends())}
+                    className="w-full px-4 py-3 text-left text-body text-foreground hover:bg-muted transition-colors"
+                  >
+                    Health Trends
+                  </button>
                   <button
                     onClick={toggleDeleteMode}
                     className="w-full px-4 py-3 text-left text-body text-destructive hover:bg-destructive-light transition-colors"
@@ -197,19 +223,24 @@ export function HistoryScreen() {
               {showMenu && (
                 <div className="absolute top-full right-0 mt-1 w-36 bg-card rounded-lg shadow-lg border border-border overflow-hidden z-50">
                   <button
-                    onClick={async () => {
+                    onClick={() => navigate(routes.memberTrends(viewingMember.user_id))}
+                    className="w-full px-4 py-3 text-left text-body text-foreground hover:bg-muted transition-colors"
+                  >
+                    Health Trends
+                  </button>
+                  <button
+                    onClick={() => {
                       setShowMenu(false);
                       const newName = window.prompt("Enter new display name:", viewingMember.display_name);
                       if (newName && newName !== viewingMember.display_name) {
-                        try {
-                          await renameFamilyConnection(viewingMember.connection_id, newName);
-                          toast.success("Renamed successfully");
-                          // Update local state for immediate feedback
-                          setViewingMember({ ...viewingMember, display_name: newName });
-                        } catch (e) {
-                          console.error(e);
-                          toast.error("Failed to rename");
-                        }
+                        // The cached member list updates optimistically, and viewingMember follows it
+                        renameMember.mutate({ connectionId: viewingMember.connection_id, displayName: newName }, {
+                          onSuccess: ({ queued }) => toast.success(queued ? "Renamed; will sync when you're back online" : "Renamed successfully"),
+                          onError: (e) => {
+                            logger.error('Failed to rename family member:', e);
+                            toast.error("Failed to rename");
+                          },
+                        });
                       }
                     }}
                     className="w-full px-4 py-3 text-left text-body text-foreground hover:bg-muted transition-colors"
@@ -268,6 +299,14 @@ export function HistoryScreen() {
 
       {/* Report List */}
       <div className="flex-1 overflow-y-auto px-5 py-4 pb-36 custom-scrollbar">
+        {pendingReports.length > 0 && !isDeleteMode && (
+          <div className="space-y-3 mb-3">
+            {pendingReports.map(report => (
+              <ProcessingReportCard key={report.reportId} report={report} />
+            ))}
+          </div>
+        )}
+
         {loading ? (
           <div className="flex items-center justify-center py-12">
             <p className="text-body text-text-secondary">Loading reports...</p>
@@ -306,7 +345,7 @@ export function HistoryScreen() {
                 <div className="w-16 h-16 rounded-xl bg-primary/5 flex items-center justify-center relative overflow-hidden shrink-0">
                   <FileText className="w-8 h-8 text-primary" />
                   {report.imageUrl && (
-                    <img
+                    <CachedImage
                       src={getStorageUrl(report.imageUrl)}
                       alt="Report"
                       className="absolute inset-0 w-full h-full object-cover"
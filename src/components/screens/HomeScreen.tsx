@@ -1,11 +1,14 @@
 import React from 'react';
 import { useApp } from '@/contexts/AppContext';
+import { useProcessing } from '@/contexts/ProcessingContext';
+import { ProcessingReportCard } from '@/components/ProcessingReportCard';
 import { TabBar } from '@/components/TabBar';
 import { Shield, Check, Lightbulb, Crown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 export function HomeScreen() {
   const { user, freeScansLeft, setShowPremiumModal } = useApp();
+  const { processingReports } = useProcessing();
 
   const getGreeting = () => {
     const hour = new Date().getHours();
@@ -58,6 +61,16 @@ export function HomeScreen() {
 
       {/* Scrollable Content */}
       <div className="flex-1 overflow-y-auto px-5 pb-24 custom-scrollbar">
+        {/* Reports Still Processing */}
+        {processingReports.length > 0 && (
+          <div className="space-y-3 mb-6">
+            <h2 className="text-section text-foreground">Processing</h2>
+            {processingReports.map(report => (
+              <ProcessingReportCard key={report.reportId} report={report} />
+            ))}
+          </div>
+        )}
+
         {/* ABDM Connection Card */}
         <div className="card-elevated p-5 border-2 border-primary relative overflow-hidden animate-fade-in">
           {/* Background Pattern */}
@@ -1,6 +1,10 @@
 import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useApp } from '@/contexts/AppContext';
+import { routes } from '@/lib/routes';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useUnits } from '@/contexts/UnitsContext';
+import { UNIT_SYSTEM_LABELS } from '@/lib/units';
 import { TabBar } from '@/components/TabBar';
 import { supabase } from '@/lib/supabase';
 import {
@@ -14,19 +18,29 @@ import {
   ChevronRight,
   Pencil,
   AlertTriangle,
-  LogOut
+  LogOut,
+  Bug,
+  Download,
+  Bell,
+  Ruler
 } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { cn } from '@/lib/utils';
 import { signOut } from '@/lib/auth';
 import { toast } from 'sonner';
+import { logger, isDiagnosticsEnabled, setDiagnosticsEnabled, exportDiagnostics } from '@/lib/logger';
+import { isPushSupported, getPushSubscription, enablePushNotifications, disablePushNotifications } from '@/lib/pwa';
+import { describeError } from '@/lib/errors';
 
 type SupabaseProfile = Record<string, unknown>;
 
 export function ProfileScreen() {
-  const { user, setCurrentScreen, setIsLoggedIn, setUser } = useApp();
+  const { user, setIsLoggedIn, setUser } = useApp();
+  const navigate = useNavigate();
   const { theme, toggleTheme } = useTheme();
+  const { unitSystem, setUnitSystem } = useUnits();
+  const toggleUnits = () => setUnitSystem(unitSystem === 'si' ? 'conventional' : 'si');
 
   // Local loading state only for image upload feedback if needed, 
   // but for main profile data we rely on user context
@@ -78,7 +92,7 @@ export function ProfileScreen() {
       toast.success("Profile picture updated!");
 
     } catch (error: any) {
-      console.error('Upload failed:', error);
+      logger.error('Upload failed:', error);
       toast.error('Failed to upload image');
     }
   };
@@ -101,10 +115,10 @@ export function ProfileScreen() {
 
       setIsLoggedIn(false);
       setUser(null);
-      setCurrentScreen('onboarding');
+      navigate(routes.welcome, { replace: true });
       toast.success('Logged out successfully');
     } catch (error) {
-      console.error('Logout error:', error);
+      logger.error('Logout error:', error);
       toast.error('An error occurred during logout');
     }
   };
@@ -153,14 +167,90 @@ export function ProfileScreen() {
   };
 
   const [activeDialog, setActiveDialog] = useState<'about' | 'privacy' | 'help' | null>(null);
+  const [diagnostics, setDiagnostics] = useState(isDiagnosticsEnabled);
+
+  /**
+   * Diagnostics mode records a redacted request timeline for support
+   */
+  const toggleDiagnostics = () => {
+    const enabled = !diagnostics;
+    setDiagnosticsEnabled(enabled);
+    setDiagnostics(enabled);
+    toast.success(enabled ? 'Diagnostics mode on' : 'Diagnostics mode off', {
+      description: enabled
+        ? 'Reproduce the problem, then export the log from this screen.'
+        : 'The recorded log has been cleared.',
+    });
+  };
+
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [pushUpdating, setPushUpdating] = useState(false);
+
+  useEffect(() => {
+    getPushSubscription()
+      .then(subscription => setPushEnabled(!!subscription && Notification.permission === 'granted'))
+      .catch(() => setPushEnabled(false));
+  }, []);
+
+  /**
+   * Push notifications cover finished reports, family invitations and flagged family reports
+   */
+  const togglePush = async () => {
+    if (pushUpdating) return;
+    setPushUpdating(true);
+    try {
+      if (pushEnabled) {
+        await disablePushNotifications();
+        setPushEnabled(false);
+        toast.success('Notifications turned off');
+        return;
+      }
+
+      const result = await enablePushNotifications();
+      if (result === 'subscribed') {
+        setPushEnabled(true);
+        toast.success('Notifications turned on', {
+          description: "We'll let you know when a report is ready or your family needs you.",
+        });
+      } else if (result === 'denied') {
+        toast.error('Notifications are blocked', {
+          description: 'Allow notifications for MediGuide in your browser settings.',
+        });
+      } else {
+        toast.error('Notifications are not available on this device');
+      }
+    } catch (error) {
+      logger.error('Failed to update push notifications:', error);
+      toast.error("Couldn't update notifications", { description: describeError(error, 'Please try again.') });
+    } finally {
+      setPushUpdating(false);
+    }
+  };
+
+  const handleExportDiagnostics = () => {
+    const url = URL.createObjectURL(exportDiagnostics());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `mediguide-diagnostics-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
   const menuItems = [
-    { icon: User, label: 'Edit Profile', onClick: () => setCurrentScreen('profile-setup') },
+    { icon: User, label: 'Edit Profile', onClick: () => navigate(routes.profileSetup) },
     // Health Reports removed
     { icon: theme === 'dark' ? Sun : Moon, label: 'App Theme', isTheme: true, onClick: toggleTheme },
+    { icon: Ruler, label: 'SI Units', isUnits: true, onClick: toggleUnits },
+    ...(isPushSupported()
+      ? [{ icon: Bell, label: 'Notifications', isPush: true, onClick: togglePush }]
+      : []),
     { icon: Shield, label: 'Privacy & Security', hasArrow: true, onClick: () => setActiveDialog('privacy') },
     { icon: HelpCircle, label: 'Help & Support', hasArrow: true, onClick: () => setActiveDialog('help') },
     { icon: Info, label: 'About', hasArrow: true, onClick: () => setActiveDialog('about') },
+    { icon: Bug, label: 'Diagnostics Mode', isDiagnostics: true, onClick: toggleDiagnostics },
+    ...(diagnostics
+      ? [{ icon: Download, label: 'Export Diagnostics', hasArrow: true, onClick: handleExportDiagnostics }]
+      : []),
     { icon: LogOut, label: 'Log Out', onClick: handleLogout, isDestructive: true },
   ];
 
@@ -279,6 +369,25 @@ export function ProfileScreen() {
                 </div>
               )}
 
+              {item.isUnits && (
+                <div className="flex items-center gap-2" onClick={(event) => event.stopPropagation()}>
+                  <span className="text-body-sm text-text-secondary">{UNIT_SYSTEM_LABELS[unitSystem]}</span>
+                  <Switch checked={unitSystem === 'si'} onCheckedChange={toggleUnits} />
+                </div>
+              )}
+
+              {item.isPush && (
+                <div onClick={(event) => event.stopPropagation()}>
+                  <Switch checked={pushEnabled} disabled={pushUpdating} onCheckedChange={togglePush} />
+                </div>
+              )}
+
+              {item.isDiagnostics && (
+                <div onClick={(event) => event.stopPropagation()}>
+                  <Switch checked={diagnostics} onCheckedChange={toggleDiagnostics} />
+                </div>
+              )}
+
               {item.hasArrow && (
                 <ChevronRight className="w-5 h-5 text-text-tertiary" />
               )}
@@ -1,14 +1,18 @@
 import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useApp } from '@/contexts/AppContext';
+import { routes } from '@/lib/routes';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ChevronDown, Calendar } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
 // console.log("ProfileSetupScreen MOUNTED");
 
 
 export function ProfileSetupScreen() {
-  const { setCurrentScreen, setHasCompletedProfile, setUser, setActiveTab } = useApp();
+  const { setHasCompletedProfile, setUser } = useApp();
+  const navigate = useNavigate();
   
   const [formData, setFormData] = useState({
     fullName: '',
@@ -50,7 +54,7 @@ export function ProfileSetupScreen() {
       }
 
       // Prefill form from existing profile
-      console.log('PREFILL PROFILE:', data);
+      logger.debug('PREFILL PROFILE:', data);
       setFormData({
         fullName: (data.full_name as string) ?? '',
         dateOfBirth: (data.dob as string) ?? '',
@@ -77,12 +81,12 @@ export function ProfileSetupScreen() {
       } = await supabase.auth.getUser();
 
       if (authError) {
-        console.error('Error fetching authenticated user:', authError.message);
+        logger.error('Error fetching authenticated user:', authError.message);
         return;
       }
 
       if (!user) {
-        console.error('No authenticated user found when saving profile');
+        logger.error('No authenticated user found when saving profile');
         return;
       }
 
@@ -102,7 +106,7 @@ export function ProfileSetupScreen() {
       });
 
       if (upsertError) {
-        console.error('Error saving profile to Supabase:', upsertError.message);
+        logger.error('Error saving profile to Supabase:', upsertError.message);
         return;
       }
 
@@ -124,10 +128,9 @@ export function ProfileSetupScreen() {
         },
       });
       setHasCompletedProfile(true);
-      setActiveTab('home');
-      setCurrentScreen('home');
+      navigate(routes.home);
     } catch (error) {
-      console.error('Unexpected error while saving profile:', error);
+      logger.error('Unexpected error while saving profile:', error);
     }
   };
 
@@ -1,18 +1,30 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
 import { useApp } from '@/contexts/AppContext';
 import { ArrowLeft, Share2, Download, MessageCircle, AlertTriangle, Check, Brain, ChevronRight, FileText } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { getReport, getReportParameters, getReportSynthesis } from '@/lib/api';
 import { toast } from 'sonner';
+import { routes } from '@/lib/routes';
+import { logger } from '@/lib/logger';
+import { describeError } from '@/lib/errors';
+import { useReport, useReportParameters, useSynthesis } from '@/hooks/use-reports';
+import { findAnalyte, isMetadataParameter, CATEGORY_LABELS } from '@/lib/biomarkers';
+import { toUnitSystem, rangeLabel, Measurement } from '@/lib/units';
+import { useUnits } from '@/contexts/UnitsContext';
+import { patientFor, interpretForPatient, intervalLabel } from '@/lib/intervals';
 
 interface ExplanationItem {
     id: string;
     name: string;
+    category?: string;
     value: string;
     range: string;
     unit?: string;
+    reported?: Measurement; // as the lab printed it, when converted
     flag: 'normal' | 'high' | 'low';
+    // How the result reads for the patient's age and sex, when that differs from the lab's flag
+    forPatient?: { flag: 'normal' | 'high' | 'low'; group: string; range: string };
     explanation?: {
         what: string;
         meaning: string;
@@ -21,23 +33,75 @@ interface ExplanationItem {
     };
 }
 
+const FLAG_LABELS: Record<ExplanationItem['flag'], string> = {
+    normal: 'Normal',
+    high: 'High',
+    low: 'Low',
+};
+
 export function ReportExplanationScreen() {
-    const { setCurrentScreen, currentReportId, user } = useApp();
-    const [report, setReport] = useState<any>(null);
-    const [items, setItems] = useState<ExplanationItem[]>([]);
-    const [synthesis, setSynthesis] = useState<any>(null);
-    const [loading, setLoading] = useState(true);
+    const { user, viewingMember } = useApp();
+    const { unitSystem } = useUnits();
+    const [revealedId, setRevealedId] = useState<string | null>(null);
+    const { id: currentReportId } = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const reportQuery = useReport(currentReportId);
+    const parametersQuery = useReportParameters(currentReportId);
+    const synthesisQuery = useSynthesis(currentReportId);
+    const report = reportQuery.data ?? null;
+    const synthesis = synthesisQuery.data ?? null;
+    const loading = reportQuery.isPending || parametersQuery.isPending || synthesisQuery.isPending;
+    const loadError = reportQuery.error ?? parametersQuery.error ?? synthesisQuery.error;
+
+    // Age and sex from the report, or from the profile for the user's own reports
+    const patient = useMemo(
+        () => patientFor(parametersQuery.data ?? [], report?.date || report?.created_at, viewingMember ? null : user),
+        [parametersQuery.data, report?.date, report?.created_at, viewingMember, user]
+    );
+
+    // Results are shown under their catalog names and in the preferred units; metadata rows keep theirs
+    const items: ExplanationItem[] = useMemo(() => (parametersQuery.data ?? []).map((param) => {
+        const analyte = findAnalyte(param.name);
+        const shown = toUnitSystem(analyte, { value: param.value, unit: param.unit, range: param.normal_range }, unitSystem);
+        const interpretation = isMetadataParameter(param.name) ? null : interpretForPatient(analyte, param, patient);
+        return {
+            id: param.id,
+            name: analyte?.displayName ?? param.name,
+            category: analyte ? CATEGORY_LABELS[analyte.category] : undefined,
+            value: shown.value,
+            range: rangeLabel(shown) || 'N/A',
+            unit: shown.unit ?? analyte?.unit,
+            reported: shown.reported,
+            flag: param.flag,
+            forPatient: interpretation && interpretation.flag !== param.flag ? {
+                flag: interpretation.flag,
+                group: interpretation.group,
+                range: intervalLabel(analyte, interpretation, unitSystem),
+            } : undefined,
+            explanation: param.report_explanations?.[0] ? {
+                what: param.report_explanations[0].what,
+                meaning: param.report_explanations[0].meaning,
+                causes: param.report_explanations[0].causes || [],
+                next_steps: param.report_explanations[0].next_steps || [],
+            } : undefined,
+        };
+    }), [parametersQuery.data, unitSystem, patient]);
 
     // Filter metadata from standard items
-    const metadataParams = items.filter(i => i.name.startsWith('METADATA_'));
-    const displayItems = items.filter(i => !i.name.startsWith('METADATA_'));
+    const metadataParams = items.filter(i => isMetadataParameter(i.name));
+    const displayItems = items.filter(i => !isMetadataParameter(i.name));
 
     const abnormalItems = displayItems.filter(i => i.flag !== 'normal');
     const normalItems = displayItems.filter(i => i.flag === 'normal');
+    const patientItems = displayItems.filter(i => i.forPatient);
 
     // Extract Metadata
     const patientAge = metadataParams.find(i => i.name === 'METADATA_AGE')?.value;
     const patientSex = metadataParams.find(i => i.name === 'METADATA_SEX')?.value;
+    // Shown when the report does not print them but the profile supplied them
+    const profileAgeSex = !patientAge && !patientSex && (patient.age !== undefined || patient.sex)
+        ? [patient.age, patient.sex && `${patient.sex[0].toUpperCase()}${patient.sex.slice(1)}`].filter(Boolean).join(' / ')
+        : null;
     const clinicalSummary = metadataParams.find(i => i.name === 'METADATA_CLINICAL_SUMMARY')?.value;
     const overallIndication = metadataParams.find(i => i.name === 'METADATA_INDICATION')?.value;
     const rawSystemSummaries = metadataParams.find(i => i.name === 'METADATA_SYSTEM_SUMMARIES')?.value;
@@ -46,40 +110,25 @@ export function ReportExplanationScreen() {
     try {
         if (rawSystemSummaries) systemSummaries = JSON.parse(rawSystemSummaries);
     } catch (e) {
-        console.error("Failed to parse system summaries", e);
+        logger.error("Failed to parse system summaries", e);
     }
 
     const handleBack = () => {
-        setCurrentScreen('report-result');
+        navigate(routes.report(currentReportId));
     };
 
     useEffect(() => {
-        const loadExplanation = async () => {
-            if (!currentReportId) {
-                console.error("No report ID found");
-                setLoading(false);
-                return;
-            }
-            try {
-                setLoading(true);
-                const [reportData, paramsData, synthesisData] = await Promise.all([
-                    getReport(currentReportId),
-                    getReportParameters(currentReportId),
-                    getReportSynthesis(currentReportId)
-                ]);
-                setReport(reportData);
-                setItems(paramsData as any);
-                setSynthesis(synthesisData);
-            } catch (err) {
-                console.error(err);
-                toast.error('Failed to load explanation');
-            } finally {
-                setLoading(false);
-            }
-        };
-        loadExplanation();
+        if (!currentReportId) {
+            logger.error("No report ID found");
+        }
     }, [currentReportId]);
 
+    useEffect(() => {
+        if (!loadError) return;
+        logger.error('Failed to load explanation:', loadError);
+        toast.error(describeError(loadError, 'Failed to load explanation'));
+    }, [loadError]);
+
     if (loading) {
         return (
             <div className="absolute inset-0 bg-background flex items-center justify-center">
@@ -166,7 +215,7 @@ export function ReportExplanationScreen() {
                                             <>
                                                 {patientAge && patientSex ? `${patientAge} / ${patientSex}` : (patientAge || patientSex)}
                                             </>
-                                        ) : 'Not provided in lab report'}
+                                        ) : profileAgeSex ? `${profileAgeSex} (from your profile)` : 'Not provided in lab report'}
                                     </p>
                                 </div>
                                 <div className="col-span-2">
@@ -185,6 +234,37 @@ export function ReportExplanationScreen() {
                             <h2 className="text-subtitle font-bold text-foreground">Findings & Interpretation</h2>
                         </div>
 
+                        {/* Read for Age & Sex */}
+                        {patientItems.length > 0 && (
+                            <div className="space-y-4">
+                                <h3 className="text-body-lg font-semibold text-foreground flex items-center gap-2">
+                                    <span className="w-2 h-2 rounded-full bg-primary" />
+                                    Read for Age & Sex
+                                </h3>
+
+                                <div className="card-elevated p-5 border-l-4 border-l-primary space-y-3">
+                                    <p className="text-body-sm text-text-secondary leading-relaxed">
+                                        These results read differently against the usual range for the patient's age and sex
+                                        than against the range printed on the report. Ask your doctor which range applies.
+                                    </p>
+                                    {patientItems.map(item => (
+                                        <div key={item.id} className="flex items-start justify-between gap-3 pt-3 border-t border-border/50">
+                                            <div>
+                                                <p className="text-body font-semibold text-foreground">{item.name}</p>
+                                                <p className="text-body-sm text-text-secondary">
+                                                    {item.value} {item.unit} • usual for {item.forPatient.group}: {item.forPatient.range}
+                                                </p>
+                                            </div>
+                                            <div className="text-right shrink-0">
+                                                <p className="text-body-xs text-text-tertiary">Lab: {FLAG_LABELS[item.flag]}</p>
+                                                <p className="text-body-sm font-semibold text-primary">{FLAG_LABELS[item.forPatient.flag]}</p>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         {/* Abnormal Values */}
                         {abnormalItems.length > 0 && (
                             <div className="space-y-4">
@@ -198,13 +278,31 @@ export function ReportExplanationScreen() {
                                         <div key={idx} className="card-elevated p-5 border-l-4 border-l-warning">
                                             <div className="flex justify-between items-start mb-3">
                                                 <div>
+                                                    {item.category && (
+                                                        <p className="text-caption text-text-tertiary uppercase tracking-wide">{item.category}</p>
+                                                    )}
                                                     <h4 className="text-body-lg font-bold text-foreground">{item.name}</h4>
                                                     <p className="text-body text-text-secondary mt-1">
-                                                        <span className="font-semibold text-warning">{item.value} {item.unit}</span>
+                                                        {item.reported ? (
+                                                            <button
+                                                                onClick={() => setRevealedId(revealedId === item.id ? null : item.id)}
+                                                                className="font-semibold text-warning underline decoration-dotted underline-offset-4"
+                                                            >
+                                                                {item.value} {item.unit}
+                                                            </button>
+                                                        ) : (
+                                                            <span className="font-semibold text-warning">{item.value} {item.unit}</span>
+                                                        )}
                                                         <span className="text-text-tertiary text-sm mx-2">→</span>
-                                                        <span className="text-body-sm text-text-secondary">Marked as {item.flag === 'high' ? 'High' : 'Low'}</span>
+                                                        <span className="text-body-sm text-text-secondary">Marked as {FLAG_LABELS[item.flag]}</span>
                                                     </p>
                                                     <p className="text-body-xs text-text-tertiary mt-1">Reference: {item.range}</p>
+                                                    {item.reported && revealedId === item.id && (
+                                                        <p className="text-body-xs text-text-tertiary mt-1">
+                                                            As reported: {item.reported.value} {item.reported.unit}
+                                                            {item.reported.range && ` (reference ${item.reported.range})`}
+                                                        </p>
+                                                    )}
                                                 </div>
                                             </div>
 
@@ -284,7 +382,7 @@ export function ReportExplanationScreen() {
                             <p className="text-body-sm text-text-secondary mb-4">To better understand your results, you could ask:</p>
                             <ul className="space-y-3">
                                 {(synthesis?.suggested_questions && synthesis.suggested_questions.length > 0) ? (
-                                    synthesis.suggested_questions.map((q: string, i: number) => (
+                                    synthesis.suggested_questions.map((q, i) => (
                                         <li key={i} className="flex gap-3">
                                             <span className="text-primary font-bold">"</span>
                                             <p className="text-body text-foreground italic">{q}</p>
@@ -316,7 +414,7 @@ export function ReportExplanationScreen() {
                         </div>
                         <div className="card-elevated p-5 space-y-4">
                             {(synthesis?.wellness_recommendations && synthesis.wellness_recommendations.length > 0) ? (
-                                synthesis.wellness_recommendations.map((rec: any, i: number) => (
+                                synthesis.wellness_recommendations.map((rec, i) => (
                                     <div key={i}>
                                         <h4 className="text-body font-semibold text-foreground mb-1">{rec.title}</h4>
                                         <p className="text-body-sm text-text-secondary">{rec.description}</p>
@@ -1,19 +1,45 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
 import { useApp } from '@/contexts/AppContext';
-import { ArrowLeft, MessageCircle, Share2, ChevronDown, ChevronUp, Check, AlertTriangle, AlertCircle, FileText, Info } from 'lucide-react';
+import { ArrowLeft, MessageCircle, Share2, ChevronDown, ChevronUp, Check, AlertTriangle, AlertCircle, FileText, Info, TrendingUp, Pencil, Plus, RefreshCw, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { cn, getStorageUrl } from '@/lib/utils';
-import { getReport, getReportParameters } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { ExtractedParameter, ReportPage, ReportParameter } from '@/lib/api';
+import { useReport, useReportParameters, useSaveReportParameter, useRegenerateAnalysis } from '@/hooks/use-reports';
 import { toast } from 'sonner';
 import { ReportSynthesis } from '../ReportSynthesis';
 import { Chatbot } from '@/components/Chatbot';
+import { ReportPageViewer } from '@/components/ReportPageViewer';
+import { ParameterEditSheet } from '@/components/ParameterEditSheet';
+import { routes } from '@/lib/routes';
+import { describeError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { parseReadingValue } from '@/lib/trends';
+import { findAnalyte, isMetadataParameter, CATEGORY_LABELS } from '@/lib/biomarkers';
+import { toUnitSystem, rangeLabel } from '@/lib/units';
+import { parseReferenceRange, assessResult, RangeAssessment, ReferenceRange, Severity } from '@/lib/ranges';
+import { RangeGauge } from '@/components/RangeGauge';
+import { formatReading } from '@/lib/reports';
+import { patientFor, interpretForPatient, intervalLabel } from '@/lib/intervals';
+import { useUnits } from '@/contexts/UnitsContext';
 
 interface TestResult {
+  parameter: ReportParameter;
   name: string;
+  printedName?: string; // the lab's own label, when the catalog shows a different name
+  category?: string;
   value: string;
   range: string;
+  reported?: string; // value, unit and range as the lab printed them, when converted
   flag: 'normal' | 'high' | 'low';
+  correction?: 'corrected' | 'added'; // set when the user fixed or added the result
+  original?: string; // the first extraction, when corrected
+  numeric: boolean; // only numeric results can be followed on the trends screen
+  // How the result reads for the patient's age and sex, when that differs from the lab's flag
+  forPatient?: { flag: 'normal' | 'high' | 'low'; group: string; range: string };
+  // Position against the range, as printed by the lab; missing when either is not numeric
+  gauge?: { value: number; range: ReferenceRange; assessment: RangeAssessment };
   explanation?: {
     what: string;
     meaning: string;
@@ -23,16 +49,19 @@ interface TestResult {
 }
 
 export function ReportResultScreen() {
-  const { setCurrentScreen, setActiveTab, currentReportId } = useApp();
+  const { viewingMember, user } = useApp();
+  const { unitSystem } = useUnits();
+  const { id: currentReportId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
   const [expandedRow, setExpandedRow] = useState<number | null>(null);
-  const [report, setReport] = useState<any>(null);
-  const [results, setResults] = useState<TestResult[]>([]);
-  const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<'results' | 'analysis'>('results');
+  const [editing, setEditing] = useState(false);
+  // The result being corrected in the sheet; undefined inside the object when adding one
+  const [editTarget, setEditTarget] = useState<{ parameter?: ReportParameter } | null>(null);
+  const [corrected, setCorrected] = useState(false);
 
   const handleBack = () => {
-    setActiveTab('history');
-    setCurrentScreen('history');
+    navigate(viewingMember ? routes.memberHistory(viewingMember.user_id) : routes.history);
   };
 
   const getFlagIcon = (flag: string) => {
@@ -46,47 +75,69 @@ export function ReportResultScreen() {
     }
   };
 
+  const reportQuery = useReport(currentReportId);
+  const parametersQuery = useReportParameters(currentReportId);
+  const report = reportQuery.data ?? null;
+  const loading = reportQuery.isPending || parametersQuery.isPending;
+  const loadError = reportQuery.error ?? parametersQuery.error;
+  const saveParameter = useSaveReportParameter(currentReportId);
+  const regenerateAnalysis = useRegenerateAnalysis(currentReportId);
+
   useEffect(() => {
-    const loadReport = async () => {
-      if (!currentReportId) {
-        toast.error('No report ID found');
-        setCurrentScreen('history');
-        return;
-      }
-
-      try {
-        setLoading(true);
-        const reportData = await getReport(currentReportId);
-        const parameters = await getReportParameters(currentReportId);
-
-        setReport(reportData);
-
-        // Transform parameters to TestResult format
-        const transformedResults: TestResult[] = parameters.map((param: any) => ({
-          name: param.name,
-          value: `${param.value}${param.unit ? ` ${param.unit}` : ''}`,
-          range: param.normal_range || 'N/A',
-          flag: param.flag,
-          explanation: param.report_explanations?.[0] ? {
-            what: param.report_explanations[0].what,
-            meaning: param.report_explanations[0].meaning,
-            causes: param.report_explanations[0].causes || [],
-            next_steps: param.report_explanations[0].next_steps || [],
-          } : undefined,
-        }));
-
-        setResults(transformedResults);
-      } catch (error: any) {
-        console.error('Failed to load report:', error);
-        toast.error('Failed to load report. Please try again.');
-        setCurrentScreen('history');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadReport();
-  }, [currentReportId, setCurrentScreen]);
+    if (!currentReportId) {
+      toast.error('No report ID found');
+      navigate(routes.history, { replace: true });
+    }
+  }, [currentReportId, navigate]);
+
+  useEffect(() => {
+    if (!loadError) return;
+    logger.error('Failed to load report:', loadError);
+    toast.error(describeError(loadError, 'Failed to load report. Please try again.'));
+    navigate(routes.history, { replace: true });
+  }, [loadError, navigate]);
+
+  // Age and sex from the report, or from the profile for the user's own reports
+  const patient = useMemo(
+    () => patientFor(parametersQuery.data ?? [], report?.date || report?.created_at, viewingMember ? null : user),
+    [parametersQuery.data, report?.date, report?.created_at, viewingMember, user]
+  );
+
+  // Transform parameters to TestResult format, under their catalog names and in the preferred units
+  const results: TestResult[] = useMemo(() => (parametersQuery.data ?? [])
+    .filter((param) => !isMetadataParameter(param.name))
+    .map((param) => {
+      const analyte = findAnalyte(param.name);
+      const shown = toUnitSystem(analyte, { value: param.value, unit: param.unit, range: param.normal_range }, unitSystem);
+      const value = parseReadingValue(param.value);
+      const range = parseReferenceRange(param.normal_range);
+      const interpretation = interpretForPatient(analyte, param, patient);
+      return {
+        parameter: param,
+        name: analyte?.displayName ?? param.name,
+        printedName: analyte && analyte.displayName !== param.name ? param.name : undefined,
+        category: analyte ? CATEGORY_LABELS[analyte.category] : undefined,
+        value: `${shown.value}${shown.unit ? ` ${shown.unit}` : ''}`,
+        range: rangeLabel(shown) || 'N/A',
+        reported: shown.reported ? formatReading(param) : undefined,
+        flag: param.flag,
+        correction: param.source === 'manual' ? 'added' as const : param.original ? 'corrected' as const : undefined,
+        original: param.original ? `${param.original.name}: ${formatReading(param.original)}` : undefined,
+        numeric: value !== null,
+        forPatient: interpretation && interpretation.flag !== param.flag ? {
+          flag: interpretation.flag,
+          group: interpretation.group,
+          range: intervalLabel(analyte, interpretation, unitSystem),
+        } : undefined,
+        gauge: value !== null && range ? { value, range, assessment: assessResult(value, range, param.flag) } : undefined,
+        explanation: param.report_explanations?.[0] ? {
+          what: param.report_explanations[0].what,
+          meaning: param.report_explanations[0].meaning,
+          causes: param.report_explanations[0].causes || [],
+          next_steps: param.report_explanations[0].next_steps || [],
+        } : undefined,
+      };
+    }), [parametersQuery.data, unitSystem, patient]);
 
   const getFlagColor = (flag: string) => {
     switch (flag) {
@@ -99,8 +150,61 @@ export function ReportResultScreen() {
     }
   };
 
+  const flagLabels: Record<TestResult['flag'], string> = {
+    normal: 'Normal',
+    high: 'High',
+    low: 'Low',
+  };
+
+  const severityColors: Record<Severity, string> = {
+    normal: 'bg-success',
+    mild: 'bg-warning',
+    moderate: 'bg-destructive',
+    critical: 'bg-destructive ring-4 ring-destructive/30',
+  };
+
+  // Multi-page reports list their pages; older single-image reports only have image_url
+  const reportPages: string[] = report?.pages?.length
+    ? [...report.pages]
+      .sort((a: ReportPage, b: ReportPage) => a.page_number - b.page_number)
+      .map((page: ReportPage) => page.image_url)
+    : report?.image_url ? [report.image_url] : [];
+
   const overallStatus = results.some(r => r.flag === 'high' || r.flag === 'low') ? 'warning' : 'normal';
 
+  // Corrections are only made by the report's owner, once extraction has finished
+  const canEdit = !viewingMember && report?.status === 'completed';
+  // Corrected results lose their explanation until it is regenerated
+  const needsRegeneration = corrected || results.some(r => r.correction && !r.explanation);
+
+  const handleSaveParameter = (parameter: ExtractedParameter) => {
+    const parameterId = editTarget?.parameter?.id;
+    saveParameter.mutate({ parameterId, parameter }, {
+      onSuccess: () => {
+        toast.success(parameterId ? 'Result corrected' : 'Result added');
+        setEditTarget(null);
+        setCorrected(true);
+      },
+      onError: (error) => {
+        logger.error('Failed to save result:', error);
+        toast.error(describeError(error, 'Could not save the result. Please try again.'));
+      },
+    });
+  };
+
+  const handleRegenerate = () => {
+    regenerateAnalysis.mutate(undefined, {
+      onSuccess: () => {
+        toast.success('Updating explanations and smart analysis');
+        setCorrected(false);
+      },
+      onError: (error) => {
+        logger.error('Failed to regenerate analysis:', error);
+        toast.error(describeError(error, 'Could not update the analysis. Please try again.'));
+      },
+    });
+  };
+
   if (loading) {
     return (
       <div className="absolute inset-0 bg-background flex items-center justify-center">
@@ -138,7 +242,7 @@ export function ReportResultScreen() {
             variant="outline"
             size="sm"
             className="ml-auto flex items-center gap-2"
-            onClick={() => setCurrentScreen('report-explanation')}
+            onClick={() => navigate(routes.reportExplanation(currentReportId))}
           >
             <FileText className="w-4 h-4" />
             View Explanation
@@ -172,39 +276,8 @@ export function ReportResultScreen() {
 
       {/* Scrollable Content */}
       <div className="flex-1 overflow-y-auto px-5 py-4 pb-32 custom-scrollbar">
-        {/* Report Image Section - Always Visible */}
-        {report.image_url && (
-          <div className="mb-8 animate-fade-in relative z-10">
-            <div className="flex items-center justify-between mb-3 px-1">
-              <h3 className="text-body-lg font-semibold text-foreground flex items-center gap-2">
-                <FileText className="w-5 h-5 text-primary" />
-                Original Report
-              </h3>
-              <span className="text-caption text-text-tertiary bg-muted px-2 py-1 rounded-md">
-                Scanned Image
-              </span>
-            </div>
-
-            <div className="rounded-2xl overflow-hidden border border-border/60 bg-card shadow-sm relative min-h-[250px] flex items-center justify-center group transition-all hover:shadow-md">
-              {/* Pattern Background for premium feel */}
-              <div className="absolute inset-0 bg-grid-pattern opacity-[0.03] pointer-events-none" />
-
-              {/* Fallback Icon */}
-              <FileText className="w-16 h-16 text-text-tertiary/20 absolute z-0" />
-
-              {/* Image */}
-              <img
-                src={getStorageUrl(report.image_url)}
-                alt="Original Report"
-                className="w-full h-auto max-h-[500px] object-contain mx-auto relative z-10 transition-transform duration-300 group-hover:scale-[1.01]"
-                onError={(e) => e.currentTarget.style.display = 'none'}
-              />
-
-              {/* Overlay Gradient (bottom) */}
-              <div className="absolute bottom-0 left-0 right-0 h-16 bg-gradient-to-t from-black/5 to-transparent pointer-events-none opacity-50" />
-            </div>
-          </div>
-        )}
+        {/* Report Pages Section - Always Visible */}
+        <ReportPageViewer pages={reportPages} />
 
         {viewMode === 'analysis' ? (
           <ReportSynthesis reportId={currentReportId!} />
@@ -272,26 +345,96 @@ export function ReportResultScreen() {
               </div>
             ) : null}
 
+            {/* Regenerate after corrections */}
+            {canEdit && needsRegeneration && (
+              <div className="card-elevated p-4 mb-4 flex items-center gap-3 border-l-4 border-l-primary">
+                <p className="flex-1 text-body-sm text-text-secondary">
+                  Results were corrected. Update the explanations and smart analysis to match.
+                </p>
+                <Button size="sm" className="gap-2 shrink-0" onClick={handleRegenerate} disabled={regenerateAnalysis.isPending}>
+                  {regenerateAnalysis.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                  Update
+                </Button>
+              </div>
+            )}
+
+            {/* Edit Toolbar */}
+            {canEdit && (
+              <div className="flex items-center gap-2 mb-3">
+                <p className="flex-1 text-body-sm text-text-tertiary">
+                  {editing ? 'Tap a result to correct it' : 'Something read wrong?'}
+                </p>
+                {editing && (
+                  <Button variant="outline" size="sm" className="gap-1.5" onClick={() => setEditTarget({})}>
+                    <Plus className="w-4 h-4" />
+                    Add missed result
+                  </Button>
+                )}
+                <Button
+                  variant={editing ? 'default' : 'outline'}
+                  size="sm"
+                  className="gap-1.5"
+                  onClick={() => {
+                    setEditing(!editing);
+                    setExpandedRow(null);
+                  }}
+                >
+                  {editing ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+                  {editing ? 'Done' : 'Edit'}
+                </Button>
+              </div>
+            )}
+
             {/* Results Table */}
             <div className="space-y-3">
               {results.map((result, index) => (
-                <div key={index} className="card-elevated overflow-hidden">
+                <div key={result.parameter.id} className="card-elevated overflow-hidden">
                   {/* Row Header */}
                   <button
-                    onClick={() => setExpandedRow(expandedRow === index ? null : index)}
+                    onClick={() => editing
+                      ? setEditTarget({ parameter: result.parameter })
+                      : setExpandedRow(expandedRow === index ? null : index)}
                     className="w-full p-4 flex items-center gap-4 text-left"
                   >
-                    <div className={cn("w-3 h-3 rounded-full", getFlagColor(result.flag))} />
+                    <div className={cn(
+                      "w-3 h-3 rounded-full shrink-0",
+                      result.gauge ? severityColors[result.gauge.assessment.severity] : getFlagColor(result.flag)
+                    )} />
                     <div className="flex-1 min-w-0">
                       <p className="text-body-lg text-foreground font-medium">{result.name}</p>
+                      {(result.printedName || result.category || result.correction) && (
+                        <p className="text-caption text-text-tertiary truncate">
+                          {[
+                            result.category,
+                            result.printedName && `Listed as “${result.printedName}”`,
+                            result.correction === 'added' ? 'Added by you' : result.correction && 'Corrected',
+                          ].filter(Boolean).join(' • ')}
+                        </p>
+                      )}
                       <div className="flex items-center gap-2 mt-1">
                         <span className="text-body font-semibold text-primary">{result.value}</span>
                         <span className="text-body-sm text-text-tertiary">({result.range})</span>
                       </div>
+                      {result.forPatient && (
+                        <p className="text-caption text-primary font-medium mt-1 flex items-center gap-1">
+                          <Info className="w-3.5 h-3.5 shrink-0" />
+                          {flagLabels[result.forPatient.flag]} for {result.forPatient.group}
+                        </p>
+                      )}
+                      {result.gauge && (
+                        <RangeGauge
+                          value={result.gauge.value}
+                          range={result.gauge.range}
+                          assessment={result.gauge.assessment}
+                          className="mt-2"
+                        />
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       {getFlagIcon(result.flag)}
-                      {expandedRow === index ? (
+                      {editing ? (
+                        <Pencil className="w-4 h-4 text-text-secondary" />
+                      ) : expandedRow === index ? (
                         <ChevronUp className="w-5 h-5 text-text-secondary" />
                       ) : (
                         <ChevronDown className="w-5 h-5 text-text-secondary" />
@@ -300,39 +443,71 @@ export function ReportResultScreen() {
                   </button>
 
                   {/* Expanded Explanation */}
-                  {expandedRow === index && (
+                  {!editing && expandedRow === index && (
                     <div className="px-4 pb-4 pt-0 border-t border-border animate-fade-in">
                       <div className="pt-4 space-y-4">
-                        <div>
-                          <h4 className="text-body font-semibold text-foreground mb-1">What is this test?</h4>
-                          <p className="text-body text-text-secondary">{result.explanation.what}</p>
-                        </div>
-                        <div>
-                          <h4 className="text-body font-semibold text-foreground mb-1">What your result means</h4>
-                          <p className="text-body text-text-secondary">{result.explanation.meaning}</p>
-                        </div>
-                        <div>
-                          <h4 className="text-body font-semibold text-foreground mb-1">Common causes</h4>
-                          <ul className="space-y-1">
-                            {result.explanation.causes.map((cause, i) => (
-                              <li key={i} className="text-body text-text-secondary flex items-center gap-2">
-                                <span className="w-1 h-1 rounded-full bg-text-tertiary" />
-                                {cause}
-                              </li>
-                            ))}
-                          </ul>
-                        </div>
-                        <div>
-                          <h4 className="text-body font-semibold text-foreground mb-1">Next steps</h4>
-                          <ul className="space-y-1">
-                            {result.explanation?.next_steps?.map((step, i) => (
-                              <li key={i} className="text-body text-text-secondary flex items-center gap-2">
-                                <Check className="w-4 h-4 text-success shrink-0" />
-                                {step}
-                              </li>
-                            ))}
-                          </ul>
-                        </div>
+                        {result.reported && (
+                          <p className="text-body-sm text-text-tertiary">As reported by the lab: {result.reported}</p>
+                        )}
+                        {result.original && (
+                          <p className="text-body-sm text-text-tertiary">Originally read as {result.original}</p>
+                        )}
+                        {result.forPatient && (
+                          <p className="text-body-sm text-text-secondary">
+                            The lab marked this {flagLabels[result.flag].toLowerCase()}, but the usual range
+                            for {result.forPatient.group} is {result.forPatient.range}, which makes
+                            it {flagLabels[result.forPatient.flag].toLowerCase()}. Ask your doctor which range applies to you.
+                          </p>
+                        )}
+                        {result.explanation ? (
+                          <>
+                            <div>
+                              <h4 className="text-body font-semibold text-foreground mb-1">What is this test?</h4>
+                              <p className="text-body text-text-secondary">{result.explanation.what}</p>
+                            </div>
+                            <div>
+                              <h4 className="text-body font-semibold text-foreground mb-1">What your result means</h4>
+                              <p className="text-body text-text-secondary">{result.explanation.meaning}</p>
+                            </div>
+                            <div>
+                              <h4 className="text-body font-semibold text-foreground mb-1">Common causes</h4>
+                              <ul className="space-y-1">
+                                {result.explanation.causes.map((cause, i) => (
+                                  <li key={i} className="text-body text-text-secondary flex items-center gap-2">
+                                    <span className="w-1 h-1 rounded-full bg-text-tertiary" />
+                                    {cause}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                            <div>
+                              <h4 className="text-body font-semibold text-foreground mb-1">Next steps</h4>
+                              <ul className="space-y-1">
+                                {result.explanation?.next_steps?.map((step, i) => (
+                                  <li key={i} className="text-body text-text-secondary flex items-center gap-2">
+                                    <Check className="w-4 h-4 text-success shrink-0" />
+                                    {step}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          </>
+                        ) : (
+                          <p className="text-body text-text-secondary">
+                            No explanation is available for this result yet.
+                          </p>
+                        )}
+                        {result.numeric && (
+                          <button
+                            onClick={() => navigate(viewingMember
+                              ? routes.memberTrends(viewingMember.user_id, result.name)
+                              : routes.trends(result.name))}
+                            className="flex items-center gap-2 text-body font-medium text-primary"
+                          >
+                            <TrendingUp className="w-4 h-4" />
+                            See trend over time
+                          </button>
+                        )}
                       </div>
                     </div>
                   )}
@@ -376,7 +551,7 @@ export function ReportResultScreen() {
             };
 
             if (navigator.share) {
-              navigator.share(shareData).catch((err) => console.log('Error sharing:', err));
+              navigator.share(shareData).catch((err) => logger.debug('Error sharing:', err));
             } else {
               // Fallback: Show options toast or simple alert for now, effectively "Share via Email"
               const subject = encodeURIComponent(shareData.title);
@@ -391,6 +566,16 @@ export function ReportResultScreen() {
         </Button>
       </div>
 
+      {canEdit && (
+        <ParameterEditSheet
+          open={!!editTarget}
+          onOpenChange={(open) => !open && setEditTarget(null)}
+          parameter={editTarget?.parameter}
+          saving={saveParameter.isPending}
+          onSave={handleSaveParameter}
+        />
+      )}
+
       {currentReportId && <Chatbot reportId={currentReportId} />}
     </div>
   );
@@ -1,55 +1,236 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useApp } from '@/contexts/AppContext';
-import { AlertTriangle, Check } from 'lucide-react';
+import { useProcessing } from '@/contexts/ProcessingContext';
+import { AlertTriangle, Check, WifiOff, Lock, FileX, Crown, ServerCrash, FileQuestion, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { ScanFailureReason, classifyUploadError } from '@/lib/failures';
+import { getPendingUploads, performUpload, isUploadCancelled } from '@/lib/uploads';
+import { signOut } from '@/lib/auth';
+import { routes } from '@/lib/routes';
+import { toast } from 'sonner';
+import { logger } from '@/lib/logger';
+
+type RecoveryAction = 'retry-upload' | 'rescan' | 'upgrade' | 'sign-in';
+
+interface FailureCopy {
+  icon: React.ElementType;
+  title: string;
+  message: string;
+  tips?: string[];
+  action: RecoveryAction;
+  actionLabel: string;
+}
+
+const retakeTips = [
+  'Document is flat on a dark surface',
+  'Lighting is even with no shadows',
+  'All corners are visible',
+];
+
+const failureCopy: Record<ScanFailureReason, FailureCopy> = {
+  network: {
+    icon: WifiOff,
+    title: 'Connection lost',
+    message: 'Your report could not be uploaded. Your pages are saved, so you can retry without scanning again.',
+    action: 'retry-upload',
+    actionLabel: 'Retry Upload',
+  },
+  auth: {
+    icon: Lock,
+    title: 'Please sign in again',
+    message: 'Your session has expired. Sign in with the same account and your saved upload will be waiting on the scan screen.',
+    action: 'sign-in',
+    actionLabel: 'Sign In',
+  },
+  'unsupported-file': {
+    icon: FileX,
+    title: 'File not supported',
+    message: 'We can read photos (JPEG, PNG, HEIC) and PDF lab reports. Please choose a different file.',
+    action: 'rescan',
+    actionLabel: 'Choose Another File',
+  },
+  'unreadable-image': {
+    icon: AlertTriangle,
+    title: "Let's try that again",
+    message: 'We need a clearer image. Make sure:',
+    tips: retakeTips,
+    action: 'rescan',
+    actionLabel: 'Retake Photo',
+  },
+  'not-lab-report': {
+    icon: FileQuestion,
+    title: "This doesn't look like a lab report",
+    message: 'We could not find any test results. Make sure you are scanning the results page:',
+    tips: ['Test names and values are visible', 'The page is the right way up', 'All corners are visible'],
+    action: 'rescan',
+    actionLabel: 'Scan Again',
+  },
+  'quota-exceeded': {
+    icon: Crown,
+    title: "You've used your free scans",
+    message: 'Upgrade to Premium for unlimited report scans and family sharing.',
+    action: 'upgrade',
+    actionLabel: 'Upgrade to Premium',
+  },
+  server: {
+    icon: ServerCrash,
+    title: 'Something went wrong on our side',
+    message: "We couldn't finish analysing your report. This is usually temporary.",
+    action: 'retry-upload',
+    actionLabel: 'Try Again',
+  },
+};
 
 export function ScanErrorScreen() {
-  const { setCurrentScreen } = useApp();
+  const { scanFailure, setScanFailure, setShowPremiumModal } = useApp();
+  const navigate = useNavigate();
+  const { trackReport } = useProcessing();
+  const [retrying, setRetrying] = useState(false);
+  const [retryPercent, setRetryPercent] = useState(0);
+
+  const reason = scanFailure?.reason ?? 'unreadable-image';
+  const copy = failureCopy[reason];
+  const Icon = copy.icon;
+
+  const goToScan = () => {
+    setScanFailure(null);
+    navigate(routes.scan, { replace: true });
+  };
+
+  const goHome = () => {
+    setScanFailure(null);
+    navigate(routes.home, { replace: true });
+  };
 
-  const tips = [
-    'Document is flat on a dark surface',
-    'Lighting is even with no shadows',
-    'All corners are visible',
-  ];
+  // End the expired session; the pending upload survives sign out, so after signing
+  // back in the user lands on the scan screen, where it is offered for resuming
+  const signInAgain = async () => {
+    setScanFailure(null);
+    await signOut();
+    navigate(routes.welcome, { replace: true, state: { from: { pathname: routes.scan } } });
+  };
+
+  /**
+   * Re-send the stored upload behind this failure; without one (e.g. the
+   * pipeline failed after a successful upload) the pages must be scanned again
+   */
+  const retryUpload = async () => {
+    const uploadId = scanFailure?.uploadId;
+    const upload = uploadId
+      ? (await getPendingUploads()).find(item => item.id === uploadId)
+      : undefined;
+
+    if (!upload) {
+      goToScan();
+      return;
+    }
+
+    setRetrying(true);
+    try {
+      const result = await performUpload(upload, progress => setRetryPercent(progress.percent));
+      trackReport({
+        reportId: result.report_id,
+        label: upload.reportType || 'Lab report',
+        pageCount: upload.files.length,
+        targetUserId: upload.targetUserId,
+      });
+      setScanFailure(null);
+      navigate(routes.reportProcessing(result.report_id), { replace: true });
+    } catch (error) {
+      if (isUploadCancelled(error)) return;
+      logger.error('Retry failed:', error);
+      const nextReason = classifyUploadError(error);
+      setScanFailure({
+        ...scanFailure,
+        reason: nextReason,
+        message: error instanceof Error ? error.message : undefined,
+      });
+      if (nextReason === reason) {
+        toast.error('Still unable to upload. Please try again in a moment.');
+      }
+    } finally {
+      setRetrying(false);
+      setRetryPercent(0);
+    }
+  };
+
+  const handleAction = () => {
+    switch (copy.action) {
+      case 'retry-upload':
+        retryUpload();
+        break;
+      case 'upgrade':
+        setShowPremiumModal(true);
+        break;
+      case 'sign-in':
+        signInAgain();
+        break;
+      default:
+        goToScan();
+    }
+  };
 
   return (
     <div className="absolute inset-0 bg-background flex flex-col items-center justify-center px-8">
       {/* Warning Icon */}
       <div className="w-16 h-16 rounded-full bg-warning/10 flex items-center justify-center mb-6 animate-fade-in">
-        <AlertTriangle className="w-8 h-8 text-warning" />
+        <Icon className="w-8 h-8 text-warning" />
       </div>
 
       {/* Title */}
       <h1 className="text-title text-foreground text-center mb-4 animate-fade-in delay-100">
-        Let's try that again
+        {copy.title}
       </h1>
 
       {/* Message */}
       <p className="text-body-lg text-text-secondary text-center mb-6 animate-fade-in delay-200">
-        We need a clearer image. Make sure:
+        {copy.message}
       </p>
 
       {/* Tips */}
-      <div className="space-y-3 mb-10 w-full animate-fade-in delay-300">
-        {tips.map((tip, index) => (
-          <div 
-            key={index}
-            className="flex items-center gap-3 p-4 rounded-xl bg-success-light"
-          >
-            <Check className="w-5 h-5 text-success shrink-0" />
-            <span className="text-body text-foreground">{tip}</span>
-          </div>
-        ))}
-      </div>
+      {copy.tips && (
+        <div className="space-y-3 mb-10 w-full animate-fade-in delay-300">
+          {copy.tips.map((tip, index) => (
+            <div
+              key={index}
+              className="flex items-center gap-3 p-4 rounded-xl bg-success-light"
+            >
+              <Check className="w-5 h-5 text-success shrink-0" />
+              <span className="text-body text-foreground">{tip}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Details from the server, for support */}
+      {scanFailure?.message && !copy.tips && (
+        <p className="text-caption text-text-tertiary text-center mb-8 animate-fade-in delay-300">
+          {scanFailure.message}
+        </p>
+      )}
 
-      {/* Action Button */}
-      <Button 
+      {/* Action Buttons */}
+      <Button
         size="lg"
-        className="w-48 animate-fade-in delay-400"
-        onClick={() => setCurrentScreen('scan')}
+        className="w-56 gap-2 animate-fade-in delay-400"
+        onClick={handleAction}
+        disabled={retrying}
       >
-        Scan Again
+        {retrying && <Loader2 className="w-4 h-4 animate-spin" />}
+        {retrying ? `Uploading... ${retryPercent}%` : copy.actionLabel}
       </Button>
+
+      {copy.action !== 'rescan' && (
+        <Button
+          variant="ghost"
+          className="w-56 mt-2 animate-fade-in delay-400"
+          onClick={copy.action === 'upgrade' ? goHome : goToScan}
+          disabled={retrying}
+        >
+          {copy.action === 'upgrade' ? 'Back to Home' : 'Scan Again'}
+        </Button>
+      )}
     </div>
   );
 }
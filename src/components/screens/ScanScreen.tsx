@@ -1,15 +1,67 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useApp } from '@/contexts/AppContext';
-import { ArrowLeft, Image, Paperclip, Camera, X, RefreshCcw, Info } from 'lucide-react';
+import { useProcessing } from '@/contexts/ProcessingContext';
+import { ArrowLeft, Image, Paperclip, Camera, X, RefreshCcw, Info, ChevronLeft, ChevronRight, RotateCw, Files, Lock, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { uploadReport } from '@/lib/api';
+import { PendingUpload, UploadProgress, queueUpload, performUpload, cancelUpload, getPendingUploads, discardUpload, isUploadCancelled } from '@/lib/uploads';
+import { CapturedPage, createCapturedPage, releaseCapturedPage, movePage, preparePagesForUpload, pageCount, loadImage } from '@/lib/scan';
+import { openPdf, renderPdfThumbnails, PdfPasswordError } from '@/lib/pdf';
 import { toast } from 'sonner';
+import { DocumentCropEditor } from '@/components/DocumentCropEditor';
+import { QualityIssue, assessImageQuality, qualityMessages } from '@/lib/quality';
+import { NormalizedImage, normalizeImageFile, isHeicFile, formatFileSize } from '@/lib/compress';
+import { computeFingerprints } from '@/lib/fingerprint';
+import { classifyUploadError } from '@/lib/failures';
+import { routes } from '@/lib/routes';
+import { findDuplicateReports, DuplicateReportMatch, UploadDetails } from '@/lib/api';
+import { UploadDetailsSheet } from '@/components/UploadDetailsSheet';
+import { PdfPageSelector } from '@/components/PdfPageSelector';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { logger } from '@/lib/logger';
 
 export function ScanScreen() {
-  const { setCurrentScreen, setActiveTab, setCurrentReportId } = useApp();
-  const [capturedImages, setCapturedImages] = useState<File[]>([]);
+  const { viewingMember, setScanFailure } = useApp();
+  const navigate = useNavigate();
+  const { trackReport } = useProcessing();
+  const [capturedImages, setCapturedImages] = useState<CapturedPage[]>([]);
+  const [selectedPageId, setSelectedPageId] = useState<string | null>(null);
+  // A fresh capture awaiting corner adjustment, scored before it was cropped and enhanced
+  const [pendingCapture, setPendingCapture] = useState<{ file: File; issues: QualityIssue[] } | null>(null);
+  const [qualityReview, setQualityReview] = useState<Array<NormalizedImage & { issues: QualityIssue[] }>>([]);
+  const [liveIssue, setLiveIssue] = useState<QualityIssue | null>(null);
+  const [openingPdf, setOpeningPdf] = useState(false);
+  const [lockedPdfs, setLockedPdfs] = useState<File[]>([]);
+  const [pdfPassword, setPdfPassword] = useState('');
+  const [pdfPasswordError, setPdfPasswordError] = useState<string | null>(null);
+  const [unlockingPdf, setUnlockingPdf] = useState(false);
+  const [showPageSelector, setShowPageSelector] = useState(false);
+  const [showDetailsSheet, setShowDetailsSheet] = useState(false);
+  const [duplicateCheck, setDuplicateCheck] = useState<{
+    files: File[];
+    fingerprints: string[];
+    details: UploadDetails;
+    targetName?: string;
+    matches: DuplicateReportMatch[];
+  } | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [pendingUpload, setPendingUpload] = useState<PendingUpload | null>(null);
+  const activeUploadIdRef = useRef<string | null>(null);
+  // Set while pages are prepared and checked for duplicates, before there is an upload id to cancel
+  const preparationRef = useRef<{ cancelled: boolean } | null>(null);
   const [permissionState, setPermissionState] = useState<'checking' | 'granted' | 'denied' | 'error'>('checking');
   const [cameraError, setCameraError] = useState<string | null>(null);
 
@@ -19,11 +71,18 @@ export function ScanScreen() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const pagesRef = useRef<CapturedPage[]>([]);
+  pagesRef.current = capturedImages;
 
   const handleBack = () => {
+    if (activeUploadIdRef.current) {
+      cancelUpload(activeUploadIdRef.current);
+    }
+    if (preparationRef.current) {
+      preparationRef.current.cancelled = true;
+    }
     stopCamera();
-    setActiveTab('home');
-    setCurrentScreen('home');
+    navigate(routes.home);
   };
 
   const stopCamera = () => {
@@ -57,12 +116,12 @@ export function ScanScreen() {
         videoRef.current.srcObject = stream;
         // Wait for the video to be ready to play
         videoRef.current.onloadedmetadata = () => {
-          videoRef.current?.play().catch(e => console.error("Play error:", e));
+          videoRef.current?.play().catch(e => logger.error("Play error:", e));
           setPermissionState('granted');
         };
       }
     } catch (err: any) {
-      console.error('Camera initialization failed:', err);
+      logger.error('Camera initialization failed:', err);
 
       if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
         setPermissionState('denied');
@@ -80,11 +139,37 @@ export function ScanScreen() {
   useEffect(() => {
     initCamera();
 
+    // Offer to resume an upload interrupted by a reload or a closed tab
+    getPendingUploads().then((uploads) => {
+      if (uploads.length > 0) {
+        setPendingUpload(uploads[uploads.length - 1]);
+      }
+    });
+
     return () => {
       stopCamera();
+      pagesRef.current.forEach(releaseCapturedPage);
     };
   }, []);
 
+  // Live quality hint over the viewfinder while the stream runs
+  useEffect(() => {
+    if (permissionState !== 'granted' || pendingCapture) {
+      setLiveIssue(null);
+      return;
+    }
+
+    const analysisCanvas = document.createElement('canvas');
+    const interval = setInterval(() => {
+      if (!videoRef.current) return;
+      const report = assessImageQuality(videoRef.current, analysisCanvas);
+      // Stream resolution is fixed by the camera, so only blur and glare are actionable here
+      setLiveIssue(report?.issues.find(issue => issue !== 'low-resolution') ?? null);
+    }, 800);
+
+    return () => clearInterval(interval);
+  }, [permissionState, pendingCapture]);
+
   const captureImage = () => {
     if (!videoRef.current || !canvasRef.current || permissionState !== 'granted') return;
 
@@ -102,18 +187,129 @@ export function ScanScreen() {
       // Draw video frame to canvas
       context.drawImage(video, 0, 0, canvas.width, canvas.height);
 
+      // Score the whole frame; as with the live hint, the stream resolution is not actionable
+      const issues = assessImageQuality(canvas)?.issues.filter(issue => issue !== 'low-resolution') ?? [];
+
       // Convert to file
       canvas.toBlob((blob) => {
         if (blob) {
-          const file = new File([blob], `scan_${Date.now()}.jpg`, { type: 'image/jpeg' });
-          validateAndAddFiles([file] as unknown as FileList, 'image');
-          toast.success('Image captured');
+          // Corners are confirmed in DocumentCropEditor before the page is added
+          setPendingCapture({ file: new File([blob], `scan_${Date.now()}.jpg`, { type: 'image/jpeg' }), issues });
         }
       }, 'image/jpeg', 0.85);
     }
   };
 
-  const validateAndAddFiles = (files: FileList | null, type: 'image' | 'pdf') => {
+  const addPages = (pages: Array<{ file: File; originalSize?: number }>) => {
+    setCapturedImages(prev => [
+      ...prev,
+      ...pages.map(page => createCapturedPage(page.file, page.originalSize)),
+    ]);
+  };
+
+  /**
+   * Normalize each image to an upright, EXIF-free JPEG, then score it on-device;
+   * pages that fail the quality check go to the retake prompt instead of the strip.
+   * Captures pass the issues found before cropping, since a cropped and enhanced
+   * page is smaller and brighter than what the camera saw.
+   */
+  const processImages = async (files: File[], capturedIssues?: QualityIssue[]) => {
+    const passed: NormalizedImage[] = [];
+    const flagged: Array<NormalizedImage & { issues: QualityIssue[] }> = [];
+
+    for (const file of files) {
+      let normalized: NormalizedImage;
+      try {
+        normalized = await normalizeImageFile(file);
+      } catch (error) {
+        logger.error('Image normalization failed:', error);
+        if (isHeicFile(file)) {
+          toast.error(`Could not convert ${file.name}. Please pick a JPEG or PNG instead.`);
+        } else {
+          // Formats the browser cannot decode are left for the backend to judge
+          passed.push({ file, originalSize: file.size });
+        }
+        continue;
+      }
+
+      try {
+        const issues = capturedIssues ?? assessImageQuality(await loadImage(normalized.file))?.issues ?? [];
+        if (issues.length > 0) {
+          flagged.push({ ...normalized, issues });
+        } else {
+          passed.push(normalized);
+        }
+      } catch (error) {
+        logger.warn('Skipping quality check:', error);
+        passed.push(normalized);
+      }
+    }
+
+    if (passed.length > 0) addPages(passed);
+    if (flagged.length > 0) setQualityReview(prev => [...prev, ...flagged]);
+  };
+
+  /**
+   * Open a PDF and add it with thumbnails and every page selected.
+   * Throws PdfPasswordError when the PDF needs a (different) password.
+   */
+  const addPdf = async (file: File, password?: string) => {
+    let pdf: CapturedPage['pdf'];
+    try {
+      const doc = await openPdf(file, password);
+      const thumbnails = await renderPdfThumbnails(doc);
+      pdf = {
+        document: doc,
+        thumbnails,
+        selectedPages: thumbnails.map((_, i) => i + 1),
+        locked: !!password,
+      };
+    } catch (error) {
+      if (error instanceof PdfPasswordError) throw error;
+      // PDFs pdf.js cannot parse are left for the backend to judge
+      logger.warn('Could not preview PDF:', error);
+    }
+    setCapturedImages(prev => [...prev, createCapturedPage(file, undefined, pdf)]);
+  };
+
+  const processPdfs = async (files: File[]) => {
+    setOpeningPdf(true);
+    const locked: File[] = [];
+    for (const file of files) {
+      try {
+        await addPdf(file);
+      } catch {
+        locked.push(file);
+      }
+    }
+    setOpeningPdf(false);
+    if (locked.length > 0) setLockedPdfs(prev => [...prev, ...locked]);
+  };
+
+  const currentLockedPdf = lockedPdfs[0];
+
+  const closePasswordPrompt = () => {
+    setPdfPassword('');
+    setPdfPasswordError(null);
+    setLockedPdfs(prev => prev.slice(1));
+  };
+
+  const handleUnlockPdf = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentLockedPdf || !pdfPassword) return;
+
+    setUnlockingPdf(true);
+    try {
+      await addPdf(currentLockedPdf, pdfPassword);
+      closePasswordPrompt();
+    } catch (error) {
+      setPdfPasswordError(error instanceof PdfPasswordError ? error.message : 'Could not open this PDF.');
+    } finally {
+      setUnlockingPdf(false);
+    }
+  };
+
+  const validateAndAddFiles = (files: FileList | File[] | null, type: 'image' | 'pdf') => {
     if (!files || files.length === 0) return;
 
     const newFiles: File[] = [];
@@ -121,7 +317,7 @@ export function ScanScreen() {
 
     Array.from(files).forEach(file => {
       if (type === 'image') {
-        if (file.type.startsWith('image/')) {
+        if (file.type.startsWith('image/') || isHeicFile(file)) {
           newFiles.push(file);
         } else {
           hasInvalidFile = true;
@@ -139,19 +335,50 @@ export function ScanScreen() {
       toast.error(`Please select ${type === 'image' ? 'image' : 'PDF'} files only.`);
     }
 
-    if (newFiles.length > 0) {
-      setCapturedImages(prev => [...prev, ...newFiles]);
+    if (newFiles.length === 0) return;
+
+    if (type === 'image') {
+      processImages(newFiles);
+    } else {
+      processPdfs(newFiles);
     }
   };
 
+  const currentReview = qualityReview[0];
+
+  const resolveQualityReview = (keep: boolean) => {
+    if (!currentReview) return;
+    if (keep) addPages([currentReview]);
+    setQualityReview(prev => prev.slice(1));
+  };
+
   const handleGallerySelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     validateAndAddFiles(e.target.files, 'image');
     if (e.target) e.target.value = '';
   };
 
-  const handleCameraSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    validateAndAddFiles(e.target.files, 'image');
+  const handleCameraSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
     if (e.target) e.target.value = '';
+    if (!file || !file.type.startsWith('image/')) {
+      validateAndAddFiles(file ? [file] : null, 'image');
+      return;
+    }
+
+    // The camera app's photo is full resolution, so all checks apply to it
+    let issues: QualityIssue[] = [];
+    try {
+      issues = assessImageQuality(await loadImage(file))?.issues ?? [];
+    } catch (error) {
+      logger.warn('Skipping quality check:', error);
+    }
+    setPendingCapture({ file, issues });
+  };
+
+  const handleCaptureConfirmed = (file: File) => {
+    const issues = pendingCapture?.issues;
+    setPendingCapture(null);
+    processImages([file], issues);
   };
 
   const handlePdfSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -178,35 +405,194 @@ export function ScanScreen() {
     fileInputRef.current?.click();
   };
 
-  const handleScan = async () => {
+  const runUpload = async (upload: PendingUpload) => {
+    activeUploadIdRef.current = upload.id;
+    setUploading(true);
+    setUploadProgress(null);
+    try {
+      const result = await performUpload(upload, setUploadProgress);
+
+      // Keep following the report even if the user leaves the progress screen
+      trackReport({
+        reportId: result.report_id,
+        label: upload.reportType || 'Lab report',
+        pageCount: upload.files.length,
+        targetUserId: upload.targetUserId,
+      });
+      navigate(routes.reportProcessing(result.report_id));
+
+      toast.success('Document uploaded successfully!');
+    } catch (error) {
+      if (isUploadCancelled(error)) {
+        toast.info('Upload cancelled');
+        return;
+      }
+      logger.error('Upload failed:', error);
+      stopCamera();
+      // The stored upload is kept on failure, so the error screen can retry it as-is
+      setScanFailure({
+        reason: classifyUploadError(error),
+        message: error instanceof Error ? error.message : undefined,
+        uploadId: upload.id,
+      });
+      navigate(routes.scanError);
+    } finally {
+      activeUploadIdRef.current = null;
+      setUploading(false);
+      setUploadProgress(null);
+    }
+  };
+
+  const handleScan = () => {
     if (capturedImages.length === 0) {
       toast.error('Please select at least one document');
       return;
     }
+    setShowDetailsSheet(true);
+  };
 
+  const beginPreparation = () => {
+    const preparation = { cancelled: false };
+    preparationRef.current = preparation;
     setUploading(true);
+    return preparation;
+  };
+
+  const handleDetailsConfirmed = async (details: UploadDetails, targetName?: string) => {
+    setShowDetailsSheet(false);
+    const preparation = beginPreparation();
     try {
-      const file = capturedImages[0];
-      const result = await uploadReport(file);
+      // Upload every page in strip order, with rotations applied
+      const files = await preparePagesForUpload(capturedImages);
+      const fingerprints = await computeFingerprints(files);
+      if (preparation.cancelled) return;
 
-      setCurrentReportId(result.report_id);
-      setCurrentScreen('scanning');
+      // Stop before uploading a report that is already in this person's history
+      const matches = await findDuplicateReports(fingerprints, details.targetUserId)
+        .then(result => result.matches)
+        .catch((error) => {
+          // The check is advisory; never block an upload on it
+          logger.warn('Duplicate check failed:', error);
+          return [] as DuplicateReportMatch[];
+        });
+      if (preparation.cancelled) return;
 
-      toast.success('Document uploaded successfully!');
-    } catch (error: any) {
-      console.error('Upload failed:', error);
-      toast.error(error.message || 'Failed to upload document. Please try again.');
-      setCurrentScreen('scan-error');
-    } finally {
+      if (matches.length > 0) {
+        preparationRef.current = null;
+        setDuplicateCheck({ files, fingerprints, details, targetName, matches });
+        setUploading(false);
+        return;
+      }
+
+      await startUpload(files, fingerprints, details, preparation);
+    } catch (error) {
+      if (preparation.cancelled) return;
+      logger.error('Failed to prepare pages:', error);
+      toast.error('Failed to prepare pages. Please try again.');
+      setUploading(false);
+    }
+  };
+
+  const startUpload = async (
+    files: File[],
+    fingerprints: string[],
+    details: UploadDetails,
+    preparation: { cancelled: boolean }
+  ) => {
+    const upload = await queueUpload(files, { ...details, fingerprints });
+    if (preparation.cancelled) {
+      await discardUpload(upload.id);
+      return;
+    }
+    preparationRef.current = null;
+    await runUpload(upload);
+  };
+
+  const handleOpenExisting = (reportId: string) => {
+    setDuplicateCheck(null);
+    stopCamera();
+    navigate(routes.report(reportId));
+  };
+
+  const handleUploadAnyway = async () => {
+    if (!duplicateCheck) return;
+    const { files, fingerprints, details } = duplicateCheck;
+    setDuplicateCheck(null);
+    const preparation = beginPreparation();
+    try {
+      await startUpload(files, fingerprints, details, preparation);
+    } catch (error) {
+      if (preparation.cancelled) return;
+      logger.error('Failed to queue upload:', error);
+      toast.error('Failed to start upload. Please try again.');
+      setUploading(false);
+    }
+  };
+
+  const handleCancelUpload = () => {
+    if (activeUploadIdRef.current) {
+      cancelUpload(activeUploadIdRef.current);
+      return;
+    }
+    // Nothing has been sent yet; stop the upload from starting once preparation finishes
+    if (preparationRef.current) {
+      preparationRef.current.cancelled = true;
+      preparationRef.current = null;
       setUploading(false);
+      toast.info('Upload cancelled');
     }
   };
 
+  const handleResumeUpload = () => {
+    if (!pendingUpload) return;
+    const upload = pendingUpload;
+    setPendingUpload(null);
+    runUpload(upload);
+  };
+
+  const handleDiscardUpload = async () => {
+    if (!pendingUpload) return;
+    await discardUpload(pendingUpload.id);
+    setPendingUpload(null);
+  };
+
+  const uploadLabel = () => {
+    if (!uploadProgress) return 'Preparing...';
+    if (uploadProgress.state === 'retrying') {
+      return `Connection lost, retrying in ${Math.ceil((uploadProgress.retryInMs ?? 0) / 1000)}s...`;
+    }
+    if (!navigator.onLine) return 'Waiting for connection...';
+    return `Uploading... ${uploadProgress.percent}%`;
+  };
+
   const removeImage = (index: number) => {
+    const page = capturedImages[index];
+    if (!page) return;
+    releaseCapturedPage(page);
+    if (page.id === selectedPageId) setSelectedPageId(null);
     setCapturedImages(capturedImages.filter((_, i) => i !== index));
   };
 
-  const isPDF = (file: File) => file.type === 'application/pdf';
+  const moveImage = (index: number, direction: -1 | 1) => {
+    setCapturedImages(movePage(capturedImages, index, direction));
+  };
+
+  const rotateImage = (index: number) => {
+    setCapturedImages(capturedImages.map((page, i) =>
+      i === index ? { ...page, rotation: (page.rotation + 90) % 360 } : page
+    ));
+  };
+
+  const updatePdfSelection = (selectedPages: number[]) => {
+    setCapturedImages(capturedImages.map(page =>
+      page.id === selectedPageId && page.pdf ? { ...page, pdf: { ...page.pdf, selectedPages } } : page
+    ));
+    setShowPageSelector(false);
+  };
+
+  const selectedIndex = capturedImages.findIndex(page => page.id === selectedPageId);
+  const selectedPage = selectedIndex >= 0 ? capturedImages[selectedIndex] : null;
+  const totalPages = capturedImages.reduce((sum, page) => sum + pageCount(page), 0);
 
   return (
     <div className="absolute inset-0 bg-foreground overflow-hidden flex flex-col">
@@ -226,33 +612,120 @@ export function ScanScreen() {
       </div>
 
       {/* Preview List Overlay */}
-      {capturedImages.length > 0 && (
-        <div className="absolute top-24 left-0 right-0 z-20 px-5 py-3 flex gap-2 overflow-x-auto bg-black/40 backdrop-blur-sm">
-          {capturedImages.map((file, index) => (
-            <div
-              key={`${file.name}-${index}`}
-              className="relative w-16 h-16 rounded-lg bg-card/20 shrink-0 overflow-hidden flex items-center justify-center border border-primary-foreground/20"
-            >
-              <button
-                onClick={() => removeImage(index)}
-                className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-destructive flex items-center justify-center z-10"
+      {(capturedImages.length > 0 || openingPdf) && (
+        <div className="absolute top-24 left-0 right-0 z-20 bg-black/40 backdrop-blur-sm">
+          <div className="px-5 py-3 flex gap-2 overflow-x-auto">
+            {capturedImages.map((page, index) => (
+              <div
+                key={page.id}
+                onClick={() => setSelectedPageId(page.id === selectedPageId ? null : page.id)}
+                className={cn(
+                  "relative w-16 h-16 rounded-lg bg-card/20 shrink-0 overflow-hidden flex items-center justify-center border cursor-pointer",
+                  page.id === selectedPageId ? "border-2 border-primary" : "border-primary-foreground/20"
+                )}
               >
-                <X className="w-3 h-3 text-destructive-foreground" />
-              </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeImage(index);
+                  }}
+                  className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-destructive flex items-center justify-center z-10"
+                >
+                  <X className="w-3 h-3 text-destructive-foreground" />
+                </button>
 
-              {isPDF(file) ? (
-                <div className="flex flex-col items-center justify-center p-1 text-center">
-                  <Paperclip className="w-4 h-4 text-primary-foreground" />
-                </div>
-              ) : (
-                <img
-                  src={URL.createObjectURL(file)}
-                  alt={`Preview ${index + 1}`}
-                  className="w-full h-full object-cover"
-                />
-              )}
+                {/* Compressed Size */}
+                <span className="absolute bottom-0.5 right-0.5 px-1 h-4 rounded bg-black/60 text-[9px] leading-4 text-primary-foreground z-10">
+                  {formatFileSize(page.file.size)}
+                </span>
+
+                {/* Page Number */}
+                <span className="absolute bottom-0.5 left-0.5 min-w-4 h-4 px-1 rounded bg-black/60 text-[10px] leading-4 text-center text-primary-foreground z-10">
+                  {index + 1}
+                </span>
+
+                {page.pdf ? (
+                  <>
+                    <img
+                      src={page.pdf.thumbnails[page.pdf.selectedPages[0] - 1]}
+                      alt={`Preview ${index + 1}`}
+                      className="w-full h-full object-cover transition-transform duration-200"
+                      style={{ transform: `rotate(${page.rotation}deg)` }}
+                    />
+                    {/* Selected PDF Pages */}
+                    <span className="absolute top-0.5 left-0.5 px-1 h-4 rounded bg-black/60 text-[9px] leading-4 text-primary-foreground z-10">
+                      {page.pdf.selectedPages.length}/{page.pdf.thumbnails.length}pp
+                    </span>
+                  </>
+                ) : !page.previewUrl ? (
+                  <div className="flex flex-col items-center justify-center p-1 text-center">
+                    <Paperclip className="w-4 h-4 text-primary-foreground" />
+                  </div>
+                ) : (
+                  <img
+                    src={page.previewUrl}
+                    alt={`Preview ${index + 1}`}
+                    className="w-full h-full object-cover transition-transform duration-200"
+                    style={{ transform: `rotate(${page.rotation}deg)` }}
+                  />
+                )}
+              </div>
+            ))}
+            {openingPdf && (
+              <div className="w-16 h-16 rounded-lg bg-card/20 shrink-0 flex items-center justify-center border border-primary-foreground/20">
+                <Loader2 className="w-5 h-5 text-primary-foreground animate-spin" />
+              </div>
+            )}
+          </div>
+
+          {/* Page Tools */}
+          {selectedPage && (
+            <div className="px-5 pb-3 flex items-center justify-between gap-2">
+              <div className="flex flex-col">
+                <span className="text-body-sm text-primary-foreground/80">
+                  Page {selectedIndex + 1} of {capturedImages.length}
+                </span>
+                <span className="text-caption text-primary-foreground/60">
+                  {selectedPage.originalSize && selectedPage.originalSize !== selectedPage.file.size
+                    ? `${formatFileSize(selectedPage.originalSize)} → ${formatFileSize(selectedPage.file.size)}`
+                    : formatFileSize(selectedPage.file.size)}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                {selectedPage.pdf && (
+                  <button
+                    onClick={() => setShowPageSelector(true)}
+                    className="h-8 px-3 rounded-full bg-white/10 flex items-center gap-1.5 text-body-sm text-primary-foreground"
+                  >
+                    <Files className="w-4 h-4" />
+                    Pages
+                  </button>
+                )}
+                <button
+                  onClick={() => moveImage(selectedIndex, -1)}
+                  disabled={selectedIndex === 0}
+                  className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center disabled:opacity-30"
+                >
+                  <ChevronLeft className="w-4 h-4 text-primary-foreground" />
+                </button>
+                <button
+                  onClick={() => moveImage(selectedIndex, 1)}
+                  disabled={selectedIndex === capturedImages.length - 1}
+                  className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center disabled:opacity-30"
+                >
+                  <ChevronRight className="w-4 h-4 text-primary-foreground" />
+                </button>
+                <button
+                  onClick={() => rotateImage(selectedIndex)}
+                  // PDFs can only be rotated once their pages are rendered on-device
+                  disabled={!selectedPage.previewUrl && !selectedPage.pdf}
+                  className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center disabled:opacity-30"
+                >
+                  <RotateCw className="w-4 h-4 text-primary-foreground" />
+                </button>
+              </div>
             </div>
-          ))}
+          )}
         </div>
       )}
 
@@ -297,21 +770,65 @@ export function ScanScreen() {
 
         {/* Viewfinder Overlay - visible only when camera is active */}
         {permissionState === 'granted' && (
-          <div className="absolute inset-x-8 inset-y-32 border-2 border-dashed border-primary-foreground/30 rounded-2xl pointer-events-none" />
+          <div className={cn(
+            "absolute inset-x-8 inset-y-32 border-2 border-dashed rounded-2xl pointer-events-none transition-colors",
+            liveIssue ? "border-warning/70" : "border-primary-foreground/30"
+          )}>
+            <div className="absolute -bottom-10 inset-x-0 flex justify-center">
+              <span className={cn(
+                "px-3 py-1 rounded-full text-body-sm font-medium backdrop-blur-sm",
+                liveIssue ? "bg-warning/90 text-warning-foreground" : "bg-black/40 text-primary-foreground/90"
+              )}>
+                {liveIssue ? qualityMessages[liveIssue].hint : 'Looks good'}
+              </span>
+            </div>
+          </div>
         )}
       </div>
 
       {/* Capture Controls */}
       <div className="absolute bottom-0 inset-x-0 px-5 py-8 bg-gradient-to-t from-black/90 via-black/50 to-transparent pt-20">
+        {/* Resume Interrupted Upload */}
+        {pendingUpload && !uploading && (
+          <div className="mb-4 p-3 rounded-xl bg-white/10 backdrop-blur-md border border-white/20 flex items-center gap-3">
+            <p className="flex-1 text-body-sm text-primary-foreground">
+              Unfinished upload of {pendingUpload.files.length} page{pendingUpload.files.length > 1 ? 's' : ''}
+            </p>
+            <Button size="sm" variant="ghost" className="text-primary-foreground" onClick={handleDiscardUpload}>
+              Discard
+            </Button>
+            <Button size="sm" onClick={handleResumeUpload}>
+              Resume
+            </Button>
+          </div>
+        )}
+
+        {/* Upload Progress */}
+        {uploading && (
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-body-sm text-primary-foreground">{uploadLabel()}</span>
+              <Button size="sm" variant="secondary" onClick={handleCancelUpload}>
+                Cancel
+              </Button>
+            </div>
+            <div className="w-full h-1.5 bg-white/20 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all duration-200 ease-out"
+                style={{ width: `${uploadProgress?.percent ?? 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Scan Button (if images captured) */}
-        {capturedImages.length > 0 && (
+        {capturedImages.length > 0 && !uploading && (
           <Button
             size="lg"
             className="w-full mb-8 shadow-lg"
             onClick={handleScan}
-            disabled={uploading}
           >
-            {uploading ? 'Uploading...' : `Process ${capturedImages.length} Document${capturedImages.length > 1 ? 's' : ''}`}
+            {`Process ${totalPages} Page${totalPages !== 1 ? 's' : ''}`}
           </Button>
         )}
 
@@ -329,7 +846,8 @@ export function ScanScreen() {
             <input
               ref={galleryInputRef}
               type="file"
-              accept="image/*"
+              accept="image/*,.heic,.heif"
+              multiple
               onChange={handleGallerySelect}
               className="hidden"
             />
@@ -379,6 +897,137 @@ export function ScanScreen() {
           </button>
         </div>
       </div>
+
+      {/* Corner adjustment for fresh captures */}
+      {pendingCapture && (
+        <DocumentCropEditor
+          file={pendingCapture.file}
+          onConfirm={handleCaptureConfirmed}
+          onCancel={() => setPendingCapture(null)}
+        />
+      )}
+
+      {/* Retake prompt for pages that failed the quality check */}
+      <AlertDialog open={!!currentReview}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {currentReview ? qualityMessages[currentReview.issues[0]].title : ''}
+            </AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>This page may not be readable. We recommend retaking it.</p>
+                <ul className="space-y-1">
+                  {currentReview?.issues.map(issue => (
+                    <li key={issue}>• {qualityMessages[issue].tip}</li>
+                  ))}
+                </ul>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => resolveQualityReview(true)}>Use Anyway</AlertDialogCancel>
+            <AlertDialogAction onClick={() => resolveQualityReview(false)}>Retake</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Duplicate report prompt */}
+      <AlertDialog open={!!duplicateCheck} onOpenChange={(open) => !open && setDuplicateCheck(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Already uploaded?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {duplicateCheck?.targetName
+                ? `This looks like a report already in ${duplicateCheck.targetName}'s history.`
+                : 'This looks like a report you have already uploaded.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            {duplicateCheck?.matches.map(match => (
+              <button
+                key={match.report_id}
+                onClick={() => handleOpenExisting(match.report_id)}
+                className="w-full p-3 rounded-lg bg-muted text-left hover:bg-muted/70 transition-colors"
+              >
+                <p className="text-body font-semibold text-foreground">{match.type}</p>
+                <p className="text-body-sm text-text-secondary">
+                  {match.lab_name || 'Unknown Lab'} • {new Date(match.date || match.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                </p>
+                <p className="text-caption text-primary mt-1">Open existing report</p>
+              </button>
+            ))}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleUploadAnyway}>Upload Anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Password prompt for protected PDFs */}
+      <Dialog open={!!currentLockedPdf} onOpenChange={(open) => !open && !unlockingPdf && closePasswordPrompt()}>
+        <DialogContent>
+          <form onSubmit={handleUnlockPdf} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Lock className="w-4 h-4" />
+                Password Protected PDF
+              </DialogTitle>
+              <DialogDescription>
+                Enter the password for {currentLockedPdf?.name}. Labs often use your date of birth or
+                phone number. The password stays on this device.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Input
+                type="password"
+                autoFocus
+                value={pdfPassword}
+                onChange={(e) => {
+                  setPdfPassword(e.target.value);
+                  setPdfPasswordError(null);
+                }}
+                placeholder="PDF password"
+              />
+              {pdfPasswordError && (
+                <p className="text-body-sm text-destructive">{pdfPasswordError}</p>
+              )}
+            </div>
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={closePasswordPrompt} disabled={unlockingPdf}>
+                Skip File
+              </Button>
+              <Button type="submit" disabled={!pdfPassword || unlockingPdf} className="gap-2">
+                {unlockingPdf && <Loader2 className="w-4 h-4 animate-spin" />}
+                Unlock
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Page selection for PDFs */}
+      {selectedPage?.pdf && (
+        <PdfPageSelector
+          open={showPageSelector}
+          onOpenChange={setShowPageSelector}
+          fileName={selectedPage.file.name}
+          thumbnails={selectedPage.pdf.thumbnails}
+          selectedPages={selectedPage.pdf.selectedPages}
+          rotation={selectedPage.rotation}
+          onConfirm={updatePdfSelection}
+        />
+      )}
+
+      {/* Pre-upload details */}
+      <UploadDetailsSheet
+        open={showDetailsSheet}
+        onOpenChange={setShowDetailsSheet}
+        onConfirm={handleDetailsConfirmed}
+        pageCount={totalPages}
+        defaultMemberId={viewingMember?.user_id}
+      />
     </div>
   );
 }
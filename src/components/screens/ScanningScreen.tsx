@@ -1,8 +1,14 @@
 import React, { useEffect, useState, useRef } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
 import { useApp } from '@/contexts/AppContext';
-import { Plus } from 'lucide-react';
-import { getReportStatus } from '@/lib/api';
-import { toast } from 'sonner';
+import { Plus, Check, Loader2 } from 'lucide-react';
+import { ReportStatus, ProcessingStage } from '@/lib/api';
+import { subscribeToReportStatus, statusProgress, stageLabels, isFatalStatusError, PROCESSING_STAGES } from '@/lib/status';
+import { cn } from '@/lib/utils';
+import { classifyProcessingFailure } from '@/lib/failures';
+import { routes } from '@/lib/routes';
+import { Button } from '@/components/ui/button';
+import { logger } from '@/lib/logger';
 
 const funFacts = [
   "Did you know? The human heart creates enough pressure to squirt blood 30 feet.",
@@ -12,110 +18,90 @@ const funFacts = [
   "The acid in your stomach is strong enough to dissolve metal.",
 ];
 
+// No update for this long means the pipeline is slower than usual, not that it failed
+const STALL_MS = 120000;
+
 export function ScanningScreen() {
-  const { setCurrentScreen, currentReportId } = useApp();
+  const { setScanFailure } = useApp();
+  const { id: currentReportId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
   const [fact] = useState(funFacts[Math.floor(Math.random() * funFacts.length)]);
   const [progress, setProgress] = useState(0);
-  const startTimeRef = useRef<number>(Date.now());
-  const pollingRef = useRef<NodeJS.Timeout | null>(null);
+  const [stage, setStage] = useState<ProcessingStage | undefined>();
+  const [stalled, setStalled] = useState(false);
+  const stallTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
     let isMounted = true;
 
-    // Reset start time on mount
-    startTimeRef.current = Date.now();
-
-    if (!currentReportId) {
-      // Small delay to allow state to propagate if coming from a fast transition
-      const timer = setTimeout(() => {
-        if (!currentReportId) {
-          console.log('No currentReportId after delay, redirecting to scan');
-          setCurrentScreen('scan');
-        }
-      }, 2000);
-      return () => clearTimeout(timer);
-    }
-
-    const pollStatus = async () => {
-      try {
-        if (!isMounted) return;
-
-        // Check for timeout (60 seconds)
-        const elapsed = Date.now() - startTimeRef.current;
-        if (elapsed > 60000) {
-          console.error('Analysis timed out');
-          toast.error('Analysis timed out. Please try again.');
-          setCurrentScreen('scan-error');
-          return;
-        }
-
-        console.log(`Polling status for report: ${currentReportId}`);
-        const reportStatus = await getReportStatus(currentReportId);
-        console.log('Received report status:', reportStatus);
-
-        if (!isMounted) return;
-
-        const status = reportStatus.status.toLowerCase();
-
-        if (status === 'processing') {
-          // Calculate progress based on time, capping at 90% until complete
-          // Assuming typical completion takes ~15-20s
-          const estimatedProgress = Math.min(Math.floor((elapsed / 20000) * 90), 90);
-          setProgress(Math.max(estimatedProgress, 10)); // Min 10% to show activity
-
-          // Schedule next poll
-          pollingRef.current = setTimeout(pollStatus, 2000);
-
-        } else if (status === 'completed') {
-          console.log('Report completed, navigating to result...');
-          setProgress(100);
-
-          // Small delay to show 100% before transition
-          setTimeout(() => {
-            if (isMounted) {
-              setCurrentScreen('report-result');
-            }
-          }, 500);
-
-        } else if (status === 'failed') {
-          console.error('Report processing failed:', reportStatus.error_message);
-          toast.error(reportStatus.error_message || 'Report processing failed. Please try again.');
-          setTimeout(() => {
-            if (isMounted) {
-              setCurrentScreen('scan-error');
-            }
-          }, 500);
-
-        } else {
-          // Unknown status, assume processing but log warning
-          console.warn('Unknown status received:', status);
-          pollingRef.current = setTimeout(pollStatus, 2000);
-        }
-      } catch (error: any) {
-        console.error('Status check failed:', error);
-
-        // Critical errors (404, 400) should fail immediately
-        if (error.status === 404 || error.status === 400) {
-          toast.error('Analysis failed: Report not found or invalid.');
-          setCurrentScreen('scan-error');
-          return;
-        }
-
-        // Retry on network errors until timeout
-        if (isMounted) {
-          pollingRef.current = setTimeout(pollStatus, 2000);
-        }
+    const resetStallTimer = () => {
+      setStalled(false);
+      if (stallTimerRef.current) clearTimeout(stallTimerRef.current);
+      stallTimerRef.current = setTimeout(() => {
+        if (isMounted) setStalled(true);
+      }, STALL_MS);
+    };
+
+    const handleStatus = (reportStatus: ReportStatus) => {
+      if (!isMounted) return;
+      resetStallTimer();
+      setStage(reportStatus.stage);
+      // Never let the bar move backwards if updates arrive out of order
+      setProgress(prev => Math.max(prev, statusProgress(reportStatus)));
+
+      if (reportStatus.status === 'completed') {
+        if (stallTimerRef.current) clearTimeout(stallTimerRef.current);
+        // Small delay to show 100% before transition
+        setTimeout(() => {
+          if (isMounted) {
+            navigate(routes.report(currentReportId), { replace: true });
+          }
+        }, 500);
+      } else if (reportStatus.status === 'failed') {
+        if (stallTimerRef.current) clearTimeout(stallTimerRef.current);
+        logger.error('Report processing failed:', reportStatus.error_message);
+        setScanFailure({
+          reason: classifyProcessingFailure(reportStatus),
+          message: reportStatus.error_message,
+          reportId: currentReportId,
+        });
+        setTimeout(() => {
+          if (isMounted) {
+            navigate(routes.scanError, { replace: true });
+          }
+        }, 500);
       }
     };
 
-    // Start polling
-    pollStatus();
+    const handleError = (error: unknown) => {
+      logger.error('Status check failed:', error);
+
+      // A missing or invalid report should fail immediately; anything else is retried
+      if (isMounted && isFatalStatusError(error)) {
+        setScanFailure({
+          reason: 'server',
+          message: 'Report not found or invalid.',
+          reportId: currentReportId,
+        });
+        navigate(routes.scanError, { replace: true });
+      }
+    };
+
+    resetStallTimer();
+    const unsubscribe = subscribeToReportStatus(currentReportId, handleStatus, handleError);
 
     return () => {
       isMounted = false;
-      if (pollingRef.current) clearTimeout(pollingRef.current);
+      unsubscribe();
+      if (stallTimerRef.current) clearTimeout(stallTimerRef.current);
     };
-  }, [currentReportId, setCurrentScreen]);
+  }, [currentReportId, navigate, setScanFailure]);
+
+  const handleContinueInBackground = () => {
+    navigate(routes.home);
+  };
+
+  const currentStageIndex = stage ? PROCESSING_STAGES.indexOf(stage) : -1;
 
   return (
     <div className="absolute inset-0 bg-foreground/80 flex items-center justify-center z-50">
@@ -149,10 +135,46 @@ export function ScanningScreen() {
           />
         </div>
 
-        {/* Fun Fact */}
-        <p className="text-body text-text-secondary text-center leading-relaxed">
-          {fact}
-        </p>
+        {/* Pipeline Stages */}
+        <ul className="w-full space-y-2 mb-6">
+          {PROCESSING_STAGES.map((item, index) => {
+            const done = index < currentStageIndex || progress >= 100;
+            const active = index === currentStageIndex && progress < 100;
+            return (
+              <li key={item} className="flex items-center gap-2">
+                <span className={cn(
+                  "w-4 h-4 rounded-full flex items-center justify-center shrink-0",
+                  done ? "bg-primary" : "bg-muted"
+                )}>
+                  {done && <Check className="w-3 h-3 text-primary-foreground" />}
+                  {active && <Loader2 className="w-3 h-3 text-primary animate-spin" />}
+                </span>
+                <span className={cn(
+                  "text-body-sm",
+                  done || active ? "text-foreground" : "text-text-secondary"
+                )}>
+                  {stageLabels[item]}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+
+        {stalled ? (
+          <div className="flex flex-col items-center gap-3">
+            <p className="text-body text-text-secondary text-center leading-relaxed">
+              This is taking longer than usual. We'll keep working on it and your report will appear in History when it's ready.
+            </p>
+            <Button variant="outline" className="w-full" onClick={handleContinueInBackground}>
+              Continue in Background
+            </Button>
+          </div>
+        ) : (
+          /* Fun Fact */
+          <p className="text-body text-text-secondary text-center leading-relaxed">
+            {fact}
+          </p>
+        )}
       </div>
     </div>
   );
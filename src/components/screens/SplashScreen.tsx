@@ -1,18 +1,10 @@
-import React, { useEffect } from 'react';
-import { useApp } from '@/contexts/AppContext';
+import React from 'react';
 import { Shield, Activity } from 'lucide-react';
 
+/**
+ * SplashScreen component - Shown while the stored session is checked on launch
+ */
 export function SplashScreen() {
-  const { setCurrentScreen } = useApp();
-
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setCurrentScreen('onboarding');
-    }, 3000);
-
-    return () => clearTimeout(timer);
-  }, [setCurrentScreen]);
-
   return (
     <div className="absolute inset-0 bg-gradient-primary flex flex-col items-center justify-center">
       {/* Animated Background Pattern */}
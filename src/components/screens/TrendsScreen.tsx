@@ -0,0 +1,308 @@
+import React, { useEffect, useMemo } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from 'recharts';
+import { ArrowLeft, ChevronRight, Minus, TrendingDown, TrendingUp } from 'lucide-react';
+import { toast } from 'sonner';
+import { useApp } from '@/contexts/AppContext';
+import { useUnits } from '@/contexts/UnitsContext';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { TabBar } from '@/components/TabBar';
+import { cn } from '@/lib/utils';
+import { routes } from '@/lib/routes';
+import { describeError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { biomarkerKey, comparableReadings, Reading } from '@/lib/trends';
+import { parseReferenceRange, ReferenceRange } from '@/lib/ranges';
+import { useBiomarkers } from '@/hooks/use-trends';
+import { useFamilyMembers } from '@/hooks/use-family';
+
+interface TrendPoint {
+  time: number;
+  value: number;
+  reading: Reading;
+}
+
+const flagFills: Record<Reading['flag'], string> = {
+  normal: 'hsl(var(--success))',
+  high: 'hsl(var(--destructive))',
+  low: 'hsl(var(--warning))',
+};
+
+const flagDots: Record<Reading['flag'], string> = {
+  normal: 'bg-success',
+  high: 'bg-destructive',
+  low: 'bg-warning',
+};
+
+const formatDate = (value: string | number) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatTick = (value: number) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+
+const formatValue = (value: number) => Number(value.toFixed(2)).toLocaleString();
+
+/**
+ * Y axis that fits every reading and the reference band, with some headroom
+ */
+function chartDomain(values: number[], band: ReferenceRange | null): [number, number] {
+  const bounds = [...values, band?.low, band?.high].filter((bound): bound is number => bound !== undefined);
+  const min = Math.min(...bounds);
+  const max = Math.max(...bounds);
+  const padding = (max - min) * 0.15 || Math.abs(max) * 0.1 || 1;
+  return [min >= 0 ? Math.max(0, min - padding) : min - padding, max + padding];
+}
+
+/**
+ * TrendsScreen component - one biomarker across every report, with its reference range
+ */
+export function TrendsScreen() {
+  const { viewingMember, setViewingMember } = useApp();
+  const { unitSystem } = useUnits();
+  const { memberId } = useParams<{ memberId?: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  // As on the history screen, the member comes from the URL so links and reloads work
+  const familyMembers = useFamilyMembers({ enabled: !!memberId });
+
+  useEffect(() => {
+    if (!memberId) {
+      setViewingMember(null);
+      return;
+    }
+    if (!familyMembers.data) return;
+
+    const member = familyMembers.data.find(m => m.user_id === memberId && m.connection_status === 'connected');
+    if (member) {
+      setViewingMember(member);
+    } else {
+      toast.error('Family member not found');
+      navigate(routes.family, { replace: true });
+    }
+  }, [memberId, familyMembers.data, setViewingMember, navigate]);
+
+  const { biomarkers, isPending, error } = useBiomarkers(unitSystem, memberId);
+
+  useEffect(() => {
+    if (!error) return;
+    logger.error('Failed to load trends:', error);
+    toast.error(describeError(error, 'Failed to load your results. Please try again.'));
+  }, [error]);
+
+  const requested = searchParams.get('biomarker');
+  const biomarker = useMemo(() => {
+    const key = requested ? biomarkerKey(requested) : null;
+    return biomarkers.find(item => item.key === key) ?? biomarkers[0] ?? null;
+  }, [biomarkers, requested]);
+
+  const readings = useMemo(() => (biomarker ? comparableReadings(biomarker) : []), [biomarker]);
+  const points: TrendPoint[] = readings.map(reading => ({
+    time: new Date(reading.date).getTime(),
+    value: reading.value,
+    reading,
+  }));
+  const band = parseReferenceRange(biomarker?.latest.normalRange);
+  const domain = chartDomain(points.map(point => point.value), band);
+  const hiddenCount = biomarker ? biomarker.readings.length - readings.length : 0;
+
+  const previous = readings.length > 1 ? readings[readings.length - 2] : null;
+  const change = previous ? biomarker.latest.value - previous.value : null;
+  const ChangeIcon = change === null || change === 0 ? Minus : change > 0 ? TrendingUp : TrendingDown;
+
+  const chartConfig = {
+    value: { label: biomarker?.name ?? 'Value', color: 'hsl(var(--primary))' },
+  } satisfies ChartConfig;
+
+  const handleBack = () => {
+    navigate(memberId ? routes.memberHistory(memberId) : routes.history);
+  };
+
+  const selectBiomarker = (name: string) => {
+    setSearchParams({ biomarker: name }, { replace: true });
+  };
+
+  const openReport = (reportId: string) => navigate(routes.report(reportId));
+
+  const renderDot = ({ cx, cy, payload, index }: { cx?: number; cy?: number; payload?: TrendPoint; index?: number }) => (
+    <circle
+      key={`dot-${index}`}
+      cx={cx}
+      cy={cy}
+      r={5}
+      fill={flagFills[payload.reading.flag]}
+      stroke="hsl(var(--card))"
+      strokeWidth={2}
+      className="cursor-pointer"
+      onClick={() => openReport(payload.reading.reportId)}
+    />
+  );
+
+  return (
+    <div className="absolute inset-0 bg-background overflow-hidden flex flex-col">
+      {/* Header */}
+      <div className="pt-12 px-5 pb-4 border-b border-border">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={handleBack}
+            className="w-10 h-10 flex items-center justify-center rounded-full hover:bg-muted transition-colors"
+          >
+            <ArrowLeft className="w-6 h-6 text-foreground" />
+          </button>
+          <div>
+            <h1 className="text-section text-foreground font-semibold">
+              {viewingMember ? `${viewingMember.display_name}'s Trends` : 'Health Trends'}
+            </h1>
+            <p className="text-body-sm text-text-secondary">Results over time</p>
+          </div>
+        </div>
+
+        {/* Biomarker picker */}
+        {biomarkers.length > 0 && (
+          <div className="flex gap-2 mt-4 overflow-x-auto pb-1 custom-scrollbar">
+            {biomarkers.map(item => (
+              <button
+                key={item.key}
+                onClick={() => selectBiomarker(item.name)}
+                className={cn(
+                  "h-8 px-3 rounded-full text-body-sm whitespace-nowrap transition-colors",
+                  item.key === biomarker?.key
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-muted text-text-secondary hover:text-foreground"
+                )}
+              >
+                {item.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-5 py-4 pb-36 custom-scrollbar">
+        {isPending ? (
+          <div className="flex items-center justify-center py-12">
+            <p className="text-body text-text-secondary">Loading results...</p>
+          </div>
+        ) : !biomarker ? (
+          <div className="flex items-center justify-center py-12">
+            <p className="text-body text-text-secondary text-center">
+              No results to chart yet. Scan a report to start tracking your biomarkers.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Latest value */}
+            <div className="card-elevated p-5 mb-4">
+              <p className="text-caption text-text-tertiary">Latest • {formatDate(biomarker.latest.date)}</p>
+              <div className="flex items-baseline gap-2 mt-1">
+                <span className="text-title text-foreground">{formatValue(biomarker.latest.value)}</span>
+                {biomarker.latest.unit && (
+                  <span className="text-body text-text-secondary">{biomarker.latest.unit}</span>
+                )}
+              </div>
+              {previous && (
+                <div className="flex items-center gap-1.5 mt-2 text-body-sm text-text-secondary">
+                  <ChangeIcon className="w-4 h-4" />
+                  <span>
+                    {change === 0
+                      ? 'No change'
+                      : `${change > 0 ? '+' : '−'}${formatValue(Math.abs(change))}`} since {formatDate(previous.date)}
+                  </span>
+                </div>
+              )}
+              {biomarker.latest.normalRange && (
+                <p className="text-body-sm text-text-tertiary mt-1">Normal range: {biomarker.latest.normalRange}</p>
+              )}
+            </div>
+
+            {/* Chart */}
+            <div className="card-elevated p-4 mb-4">
+              <ChartContainer config={chartConfig} className="aspect-[4/3] w-full">
+                <LineChart data={points} margin={{ top: 8, right: 12, bottom: 0, left: -12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    padding={{ left: 16, right: 16 }}
+                    tickFormatter={formatTick}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis
+                    domain={domain}
+                    tickFormatter={formatValue}
+                    tickLine={false}
+                    axisLine={false}
+                    width={48}
+                  />
+                  {band && (
+                    <ReferenceArea
+                      y1={band.low ?? domain[0]}
+                      y2={band.high ?? domain[1]}
+                      fill="hsl(var(--success))"
+                      fillOpacity={0.12}
+                      strokeOpacity={0}
+                    />
+                  )}
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => formatDate(payload?.[0]?.payload.time)}
+                      />
+                    }
+                  />
+                  <Line
+                    dataKey="value"
+                    type="monotone"
+                    stroke="var(--color-value)"
+                    strokeWidth={2}
+                    dot={renderDot}
+                    activeDot={renderDot}
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+              <p className="text-caption text-text-tertiary mt-2">
+                Shaded area is the normal range. Tap a point to open its report.
+              </p>
+              {hiddenCount > 0 && (
+                <p className="text-caption text-text-tertiary mt-1">
+                  {hiddenCount} {hiddenCount === 1 ? 'reading' : 'readings'} in other units not shown.
+                </p>
+              )}
+            </div>
+
+            {/* Readings */}
+            <div className="space-y-3">
+              {[...biomarker.readings].reverse().map((reading, index) => (
+                <button
+                  key={`${reading.reportId}-${index}`}
+                  onClick={() => openReport(reading.reportId)}
+                  className="w-full card-elevated p-4 flex items-center gap-4 text-left"
+                >
+                  <div className={cn("w-3 h-3 rounded-full shrink-0", flagDots[reading.flag])} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-body-lg text-foreground font-medium">
+                      {formatValue(reading.value)}{reading.unit ? ` ${reading.unit}` : ''}
+                    </p>
+                    <p className="text-body-sm text-text-tertiary truncate">
+                      {reading.reportType} • {formatDate(reading.date)}
+                    </p>
+                    {reading.reported && (
+                      <p className="text-caption text-text-tertiary">Reported as {reading.reported}</p>
+                    )}
+                  </div>
+                  <ChevronRight className="w-5 h-5 text-text-secondary" />
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <TabBar />
+    </div>
+  );
+}
@@ -1,26 +1,14 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { useLocation, matchPath } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { getSession, onAuthStateChange, getCurrentUser } from '@/lib/auth';
 import { supabase } from '@/lib/supabase';
 import type { Session } from '@supabase/supabase-js';
 import { FamilyMember } from '@/lib/api';
-
-export type Screen =
-  | 'splash'
-  | 'onboarding'
-  | 'login'
-  | 'signup'
-  | 'profile-setup'
-  | 'home'
-  | 'history'
-  | 'scan'
-  | 'scanning'
-  | 'scan-error'
-  | 'report-result'
-  | 'family'
-  | 'add-family'
-  | 'nickname-popup'
-  | 'profile'
-  | 'report-explanation';
+import { ScanFailure } from '@/lib/failures';
+import { routes, routePatterns } from '@/lib/routes';
+import { SplashScreen } from '@/components/screens/SplashScreen';
+import { logger } from '@/lib/logger';
 
 export type Tab = 'home' | 'history' | 'scan' | 'family' | 'profile';
 
@@ -42,22 +30,8 @@ interface User {
   profileImage: string | null;
 }
 
-interface Report {
-  id: string;
-  date: string;
-  type: string;
-  labName: string;
-  flagLevel: 'green' | 'yellow' | 'red';
-  uploadedToABDM: boolean;
-}
-
-
-
 interface AppContextType {
-  currentScreen: Screen;
-  setCurrentScreen: (screen: Screen) => void;
   activeTab: Tab;
-  setActiveTab: (tab: Tab) => void;
   user: User | null;
   setUser: (user: User | null) => void;
   isLoggedIn: boolean;
@@ -66,10 +40,6 @@ interface AppContextType {
   setHasCompletedProfile: (value: boolean) => void;
   freeScansLeft: number;
   setFreeScansLeft: (value: number) => void;
-  reports: Report[];
-  setReports: (reports: Report[]) => void;
-  familyMembers: FamilyMember[];
-  setFamilyMembers: (members: FamilyMember[]) => void;
   showAuthModal: boolean;
   setShowAuthModal: (value: boolean) => void;
   authMode: 'login' | 'signup';
@@ -80,42 +50,46 @@ interface AppContextType {
   setShowNicknameModal: (value: boolean) => void;
   selectedFamilyMember: { id: string; name: string } | null;
   setSelectedFamilyMember: (member: { id: string; name: string } | null) => void;
-  currentReportId: string | null;
-  setCurrentReportId: (id: string | null) => void;
   viewingMember: FamilyMember | null;
   setViewingMember: (member: FamilyMember | null) => void;
+  scanFailure: ScanFailure | null;
+  setScanFailure: (failure: ScanFailure | null) => void;
   fetchUserProfile: (authUser: any) => Promise<void>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
-const mockReports: Report[] = [
-  { id: '1', date: 'Jan 3, 2025', type: 'Lipid Panel', labName: 'CityLab Diagnostics', flagLevel: 'yellow', uploadedToABDM: true },
-  { id: '2', date: 'Dec 28, 2024', type: 'Complete Blood Count', labName: 'Apollo Labs', flagLevel: 'green', uploadedToABDM: true },
-  { id: '3', date: 'Dec 15, 2024', type: 'HbA1c Test', labName: 'HealthFirst Labs', flagLevel: 'red', uploadedToABDM: false },
-  { id: '4', date: 'Nov 30, 2024', type: 'Liver Function Test', labName: 'CityLab Diagnostics', flagLevel: 'green', uploadedToABDM: true },
-  { id: '5', date: 'Nov 15, 2024', type: 'Thyroid Panel', labName: 'MedPath Labs', flagLevel: 'yellow', uploadedToABDM: false },
-];
-
-const mockFamilyMembers: FamilyMember[] = [];
+/**
+ * Tab a path belongs to; detail pages such as a report keep the tab they were opened from
+ */
+function tabForPath(pathname: string): Tab | null {
+  if (pathname === routes.home) return 'home';
+  if (pathname === routes.history || matchPath(routePatterns.memberHistory, pathname)) return 'history';
+  if (pathname === routePatterns.trends || matchPath(routePatterns.memberTrends, pathname)) return 'history';
+  if (pathname.startsWith(routes.scan)) return 'scan';
+  if (pathname.startsWith(routes.family)) return 'family';
+  if (pathname.startsWith(routes.profile)) return 'profile';
+  return null;
+}
 
 export function AppProvider({ children }: { children: React.ReactNode }) {
-  const [currentScreen, setCurrentScreen] = useState<Screen>('splash');
-  const [activeTab, setActiveTab] = useState<Tab>('home');
+  const { pathname } = useLocation();
+  const queryClient = useQueryClient();
+  const [activeTab, setActiveTab] = useState<Tab>(
+    () => tabForPath(pathname) ?? (localStorage.getItem('mediguide_active_tab') as Tab | null) ?? 'home'
+  );
   const [user, setUser] = useState<User | null>(null);
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [hasCompletedProfile, setHasCompletedProfile] = useState(false);
   const [freeScansLeft, setFreeScansLeft] = useState(3);
-  const [reports, setReports] = useState<Report[]>(mockReports);
-  const [familyMembers, setFamilyMembers] = useState<FamilyMember[]>(mockFamilyMembers);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [authMode, setAuthMode] = useState<'login' | 'signup'>('login');
   const [showPremiumModal, setShowPremiumModal] = useState(false);
   const [showNicknameModal, setShowNicknameModal] = useState(false);
   const [selectedFamilyMember, setSelectedFamilyMember] = useState<{ id: string; name: string } | null>(null);
   const [isCheckingAuth, setIsCheckingAuth] = useState(true);
-  const [currentReportId, setCurrentReportId] = useState<string | null>(null);
   const [viewingMember, setViewingMember] = useState<FamilyMember | null>(null);
+  const [scanFailure, setScanFailure] = useState<ScanFailure | null>(null);
 
   /**
    * Fetches the user profile from Supabase and syncs it to the app state
@@ -131,7 +105,7 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         .single();
 
       if (profileError) {
-        console.log('No profile found or error fetching profile:', profileError);
+        logger.debug('No profile found or error fetching profile:', profileError);
         return;
       }
 
@@ -163,7 +137,7 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         setHasCompletedProfile(true);
       }
     } catch (error) {
-      console.error('Error fetching user profile:', error);
+      logger.error('Error fetching user profile:', error);
     }
   };
 
@@ -179,29 +153,14 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
 
         if (session && supabaseUser) {
           setIsLoggedIn(true);
-          // Fetch and sync profile data immediately
+          // Fetch and sync profile data immediately; the URL decides which screen opens
           await fetchUserProfile(supabaseUser);
-
-          // Restore previous state if available
-          const savedScreen = localStorage.getItem('mediguide_current_screen') as Screen | null;
-          const savedTab = localStorage.getItem('mediguide_active_tab') as Tab | null;
-
-          if (savedScreen && savedScreen !== 'splash' && savedScreen !== 'onboarding' && savedScreen !== 'login' && savedScreen !== 'signup') {
-            setCurrentScreen(savedScreen);
-            if (savedTab) {
-              setActiveTab(savedTab);
-            }
-          } else {
-            setCurrentScreen('home');
-          }
         } else {
           setIsLoggedIn(false);
-          setCurrentScreen('onboarding');
         }
       } catch (error) {
-        console.error('Error initializing auth:', error);
+        logger.error('Error initializing auth:', error);
         setIsLoggedIn(false);
-        setCurrentScreen('onboarding');
       } finally {
         setIsCheckingAuth(false);
       }
@@ -220,28 +179,15 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         if (supabaseUser) {
           // Fetch profile immediately on sign in
           await fetchUserProfile(supabaseUser);
-          // Check for saved state on sign in as well
-          const savedScreen = localStorage.getItem('mediguide_current_screen') as Screen | null;
-          const savedTab = localStorage.getItem('mediguide_active_tab') as Tab | null;
-
-          if (savedScreen && savedScreen !== 'splash' && savedScreen !== 'onboarding' && savedScreen !== 'login' && savedScreen !== 'signup') {
-            setCurrentScreen(savedScreen);
-            if (savedTab) {
-              setActiveTab(savedTab);
-            }
-          } else {
-            setCurrentScreen('home');
-            setActiveTab('home');
-          }
         }
       } else if (event === 'SIGNED_OUT') {
         setIsLoggedIn(false);
         setUser(null);
-        setCurrentScreen('onboarding');
         setActiveTab('home'); // Reset tab state
         // Clear saved state on logout
-        localStorage.removeItem('mediguide_current_screen');
         localStorage.removeItem('mediguide_active_tab');
+        // Cached reports and family members belong to the previous account
+        queryClient.clear();
       } else if (event === 'TOKEN_REFRESHED' && session) {
         // Session refreshed, user still logged in
         setIsLoggedIn(true);
@@ -251,25 +197,25 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     return () => {
       subscription.unsubscribe();
     };
-  }, []);
+  }, [queryClient]);
 
-  // Save state whenever it changes
+  // Follow the URL into tab roots; detail routes leave the last tab highlighted
+  useEffect(() => {
+    const tab = tabForPath(pathname);
+    if (tab) setActiveTab(tab);
+  }, [pathname]);
+
+  // Save tab whenever it changes, so deep links into detail routes keep it after a reload
   useEffect(() => {
-    if (isLoggedIn && currentScreen !== 'splash' && currentScreen !== 'onboarding' && currentScreen !== 'login' && currentScreen !== 'signup') {
-      localStorage.setItem('mediguide_current_screen', currentScreen);
-    }
     if (isLoggedIn && activeTab) {
       localStorage.setItem('mediguide_active_tab', activeTab);
     }
-  }, [currentScreen, activeTab, isLoggedIn]);
+  }, [activeTab, isLoggedIn]);
 
   return (
     <AppContext.Provider
       value={{
-        currentScreen,
-        setCurrentScreen,
         activeTab,
-        setActiveTab,
         user,
         setUser,
         isLoggedIn,
@@ -278,10 +224,6 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         setHasCompletedProfile,
         freeScansLeft,
         setFreeScansLeft,
-        reports,
-        setReports,
-        familyMembers,
-        setFamilyMembers,
         showAuthModal,
         setShowAuthModal,
         authMode,
@@ -292,14 +234,14 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
         setShowNicknameModal,
         selectedFamilyMember,
         setSelectedFamilyMember,
-        currentReportId,
-        setCurrentReportId,
         viewingMember,
         setViewingMember,
+        scanFailure,
+        setScanFailure,
         fetchUserProfile,
       }}
     >
-      {isCheckingAuth ? null : children}
+      {isCheckingAuth ? <SplashScreen /> : children}
     </AppContext.Provider>
   );
 }
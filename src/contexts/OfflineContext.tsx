@@ -0,0 +1,91 @@
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useApp } from '@/contexts/AppContext';
+import { getLastSyncedAt, clearOfflineData } from '@/lib/offline';
+import { replayOutbox, pendingMutationCount, onOutboxChange } from '@/lib/outbox';
+import { discardOtherAccountsUploads } from '@/lib/uploads';
+import { logger } from '@/lib/logger';
+
+interface OfflineContextType {
+  isOnline: boolean;
+  // When data was last fetched from the backend, shown while offline
+  lastSyncedAt: string | null;
+  // Changes made offline that are waiting to be sent
+  pendingChanges: number;
+}
+
+const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
+
+export function OfflineProvider({ children }: { children: React.ReactNode }) {
+  const { isLoggedIn } = useApp();
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [lastSyncedAt, setLastSyncedAt] = useState(getLastSyncedAt);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const wasLoggedInRef = useRef(isLoggedIn);
+
+  useEffect(() => {
+    const goOnline = () => setIsOnline(true);
+    const goOffline = () => {
+      setLastSyncedAt(getLastSyncedAt());
+      setIsOnline(false);
+    };
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    const refreshCount = () => {
+      pendingMutationCount().then(setPendingChanges);
+    };
+    refreshCount();
+    return onOutboxChange(refreshCount);
+  }, [isLoggedIn]);
+
+  // Send queued changes once the connection is back, then refetch what they touched
+  useEffect(() => {
+    if (!isOnline || !isLoggedIn) return;
+
+    replayOutbox()
+      .then(({ replayed, failed }) => {
+        if (replayed > 0) {
+          toast.success(`Synced ${replayed} offline change${replayed !== 1 ? 's' : ''}`);
+        }
+        failed.forEach(({ message }) => toast.error("A change made offline couldn't be saved", { description: message }));
+        if (replayed > 0 || failed.length > 0) {
+          queryClient.invalidateQueries();
+        }
+      })
+      .catch((error) => logger.error('Failed to replay offline changes:', error));
+  }, [isOnline, isLoggedIn, queryClient]);
+
+  // Only an actual sign out wipes the cache; a session that cannot refresh offline must not.
+  // Pending uploads wait for their owner to sign back in and go once someone else does.
+  useEffect(() => {
+    if (wasLoggedInRef.current && !isLoggedIn) {
+      clearOfflineData().catch((error) => logger.error('Failed to clear offline data:', error));
+      setPendingChanges(0);
+    }
+    if (isLoggedIn) discardOtherAccountsUploads();
+    wasLoggedInRef.current = isLoggedIn;
+  }, [isLoggedIn]);
+
+  return (
+    <OfflineContext.Provider value={{ isOnline, lastSyncedAt, pendingChanges }}>
+      {children}
+    </OfflineContext.Provider>
+  );
+}
+
+export function useOffline() {
+  const context = useContext(OfflineContext);
+  if (context === undefined) {
+    throw new Error('useOffline must be used within an OfflineProvider');
+  }
+  return context;
+}
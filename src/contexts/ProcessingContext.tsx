@@ -0,0 +1,175 @@
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { useLocation, useNavigate, matchPath } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useApp } from '@/contexts/AppContext';
+import { routes, routePatterns } from '@/lib/routes';
+import { ReportStatus, ProcessingStage } from '@/lib/api';
+import { subscribeToReportStatus, statusProgress, isFatalStatusError } from '@/lib/status';
+import { reportKeys } from '@/hooks/use-reports';
+
+export interface ProcessingReport {
+  reportId: string;
+  label: string;
+  pageCount: number;
+  targetUserId?: string;
+  startedAt: string;
+  stage?: ProcessingStage;
+  progress: number;
+}
+
+interface ProcessingContextType {
+  processingReports: ProcessingReport[];
+  trackReport: (report: Omit<ProcessingReport, 'startedAt' | 'progress'>) => void;
+}
+
+const STORAGE_KEY = 'mediguide_processing_reports';
+
+const ProcessingContext = createContext<ProcessingContextType | undefined>(undefined);
+
+const loadSaved = (): ProcessingReport[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export function ProcessingProvider({ children }: { children: React.ReactNode }) {
+  const { isLoggedIn } = useApp();
+  const { pathname } = useLocation();
+  const navigate = useNavigate();
+  const [processingReports, setProcessingReports] = useState<ProcessingReport[]>(loadSaved);
+  const queryClient = useQueryClient();
+  const subscriptionsRef = useRef(new Map<string, () => void>());
+
+  // ScanningScreen already shows the outcome of the report it is watching
+  const watchingRef = useRef<string | null>(null);
+  watchingRef.current = matchPath(routePatterns.reportProcessing, pathname)?.params.id ?? null;
+
+  const openReport = (reportId: string) => navigate(routes.report(reportId));
+
+  /**
+   * Tell the user a report finished: a system notification while the app is
+   * in the background, an in-app toast otherwise
+   */
+  const notifyFinished = (report: ProcessingReport, status: ReportStatus) => {
+    if (watchingRef.current === report.reportId) return;
+
+    const completed = status.status === 'completed';
+    const title = completed ? 'Your report is ready' : 'Report processing failed';
+    const body = completed
+      ? `${report.label} has been analysed.`
+      : status.error_message || `We couldn't process ${report.label}. Please try scanning it again.`;
+
+    if (document.visibilityState === 'hidden' && 'Notification' in window && Notification.permission === 'granted') {
+      const notification = new Notification(title, { body, tag: report.reportId, icon: '/favicon.svg' });
+      notification.onclick = () => {
+        window.focus();
+        if (completed) openReport(report.reportId);
+        notification.close();
+      };
+      return;
+    }
+
+    if (completed) {
+      toast.success(title, {
+        description: body,
+        action: { label: 'View', onClick: () => openReport(report.reportId) },
+      });
+    } else {
+      toast.error(title, { description: body });
+    }
+  };
+
+  const notifyRef = useRef(notifyFinished);
+  notifyRef.current = notifyFinished;
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(processingReports));
+  }, [processingReports]);
+
+  // Forget in-flight reports on sign out; they belong to the previous account
+  useEffect(() => {
+    if (!isLoggedIn) setProcessingReports([]);
+  }, [isLoggedIn]);
+
+  // Keep exactly one status subscription per tracked report
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    const trackedIds = new Set(processingReports.map(report => report.reportId));
+
+    subscriptions.forEach((unsubscribe, reportId) => {
+      if (!trackedIds.has(reportId)) {
+        unsubscribe();
+        subscriptions.delete(reportId);
+      }
+    });
+
+    processingReports.forEach((report) => {
+      if (subscriptions.has(report.reportId)) return;
+
+      const unsubscribe = subscribeToReportStatus(
+        report.reportId,
+        (status) => {
+          if (status.status === 'processing') {
+            setProcessingReports(prev => prev.map(item =>
+              item.reportId === report.reportId
+                ? { ...item, stage: status.stage, progress: Math.max(item.progress, statusProgress(status)) }
+                : item
+            ));
+            return;
+          }
+
+          notifyRef.current(report, status);
+          setProcessingReports(prev => prev.filter(item => item.reportId !== report.reportId));
+          // Lists only show finished reports, and a detail fetched mid-processing is now stale
+          queryClient.invalidateQueries({ queryKey: reportKeys.lists() });
+          queryClient.invalidateQueries({ queryKey: reportKeys.detail(report.reportId) });
+        },
+        (error) => {
+          // A report that no longer exists cannot finish; stop tracking it
+          if (isFatalStatusError(error)) {
+            setProcessingReports(prev => prev.filter(item => item.reportId !== report.reportId));
+          }
+        }
+      );
+      subscriptions.set(report.reportId, unsubscribe);
+    });
+  }, [processingReports, queryClient]);
+
+  useEffect(() => {
+    const subscriptions = subscriptionsRef.current;
+    return () => {
+      subscriptions.forEach(unsubscribe => unsubscribe());
+      subscriptions.clear();
+    };
+  }, []);
+
+  const trackReport = (report: Omit<ProcessingReport, 'startedAt' | 'progress'>) => {
+    setProcessingReports(prev => [
+      ...prev.filter(item => item.reportId !== report.reportId),
+      { ...report, startedAt: new Date().toISOString(), progress: 0 },
+    ]);
+    queryClient.invalidateQueries({ queryKey: reportKeys.lists() });
+
+    // Ask once, so finished reports can be announced while the app is in the background
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => undefined);
+    }
+  };
+
+  return (
+    <ProcessingContext.Provider value={{ processingReports, trackReport }}>
+      {children}
+    </ProcessingContext.Provider>
+  );
+}
+
+export function useProcessing() {
+  const context = useContext(ProcessingContext);
+  if (context === undefined) {
+    throw new Error('useProcessing must be used within a ProcessingProvider');
+  }
+  return context;
+}
@@ -0,0 +1,40 @@
+import React, { createContext, useContext, useState } from 'react';
+import type { UnitSystem } from '@/lib/units';
+
+const STORAGE_KEY = 'mediguide-units';
+
+interface UnitsContextType {
+  unitSystem: UnitSystem;
+  setUnitSystem: (system: UnitSystem) => void;
+}
+
+const UnitsContext = createContext<UnitsContextType | undefined>(undefined);
+
+/**
+ * Which unit system results are shown in. Conventional units are the default,
+ * as most labs here report in mg/dL.
+ */
+export function UnitsProvider({ children }: { children: React.ReactNode }) {
+  const [unitSystem, setUnitSystemState] = useState<UnitSystem>(
+    () => (localStorage.getItem(STORAGE_KEY) === 'si' ? 'si' : 'conventional')
+  );
+
+  const setUnitSystem = (system: UnitSystem) => {
+    setUnitSystemState(system);
+    localStorage.setItem(STORAGE_KEY, system);
+  };
+
+  return (
+    <UnitsContext.Provider value={{ unitSystem, setUnitSystem }}>
+      {children}
+    </UnitsContext.Provider>
+  );
+}
+
+export function useUnits() {
+  const context = useContext(UnitsContext);
+  if (context === undefined) {
+    throw new Error('useUnits must be used within a UnitsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,90 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  getFamilyMembers,
+  inviteFamilyMember,
+  acceptFamilyConnection,
+  FamilyMember,
+} from '@/lib/api';
+import { withOfflineFallback, cacheQueryData } from '@/lib/offline';
+import { sendOrQueue } from '@/lib/outbox';
+import { reportKeys } from '@/hooks/use-reports';
+
+export const familyKeys = {
+  all: ['family'] as const,
+  members: () => [...familyKeys.all, 'members'] as const,
+};
+
+const MEMBERS_STALE_TIME = 60 * 1000;
+
+export function useFamilyMembers(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: familyKeys.members(),
+    queryFn: () => withOfflineFallback(familyKeys.members(), getFamilyMembers),
+    staleTime: MEMBERS_STALE_TIME,
+    enabled: options.enabled ?? true,
+  });
+}
+
+/**
+ * Send an invitation, or queue it to be sent once back online
+ */
+export function useInviteFamilyMember() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (invite: Parameters<typeof inviteFamilyMember>[0]) => sendOrQueue({ type: 'invite-member', invite }),
+    onSuccess: ({ queued }) => {
+      if (!queued) queryClient.invalidateQueries({ queryKey: familyKeys.members() });
+    },
+  });
+}
+
+/**
+ * Accepting an invitation also shares the member's reports, so both caches refresh
+ */
+export function useAcceptFamilyConnection() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ connectionId, displayName }: { connectionId: string; displayName?: string }) =>
+      acceptFamilyConnection(connectionId, displayName),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: familyKeys.members() });
+      queryClient.invalidateQueries({ queryKey: reportKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Rename a connection, showing the new name before the server confirms.
+ * Offline, the rename is queued and the new name kept in the offline copy.
+ */
+export function useRenameFamilyMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ connectionId, displayName }: { connectionId: string; displayName: string }) =>
+      sendOrQueue({ type: 'rename-member', connectionId, displayName }),
+    onMutate: async ({ connectionId, displayName }) => {
+      await queryClient.cancelQueries({ queryKey: familyKeys.members() });
+      const previousMembers = queryClient.getQueryData<FamilyMember[]>(familyKeys.members());
+
+      queryClient.setQueryData<FamilyMember[]>(familyKeys.members(), members =>
+        members?.map(member =>
+          member.connection_id === connectionId ? { ...member, display_name: displayName } : member
+        )
+      );
+
+      return { previousMembers };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(familyKeys.members(), context?.previousMembers);
+      queryClient.invalidateQueries({ queryKey: familyKeys.members() });
+    },
+    onSuccess: ({ queued }) => {
+      if (queued) {
+        cacheQueryData(familyKeys.members(), queryClient.getQueryData(familyKeys.members()));
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: familyKeys.members() });
+    },
+  });
+}
@@ -0,0 +1,173 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  getReport,
+  getReportParameters,
+  getReportSynthesis,
+  generateReportSynthesis,
+  listReports,
+  updateReportParameter,
+  addReportParameter,
+  regenerateReportExplanations,
+  ExtractedParameter,
+  ReportList,
+} from '@/lib/api';
+import { withOfflineFallback, cacheImages, cacheQueryData } from '@/lib/offline';
+import { sendOrQueue } from '@/lib/outbox';
+
+export type ReportFilters = Parameters<typeof listReports>[0];
+
+/**
+ * Cache keys for report queries, which also key the encrypted offline copy.
+ * Everything about one report lives under its detail key, so invalidating it
+ * refreshes the report, parameters and synthesis.
+ */
+export const reportKeys = {
+  all: ['reports'] as const,
+  lists: () => [...reportKeys.all, 'list'] as const,
+  list: (filters: ReportFilters) => [...reportKeys.lists(), filters] as const,
+  detail: (id: string) => [...reportKeys.all, 'detail', id] as const,
+  parameters: (id: string) => [...reportKeys.detail(id), 'parameters'] as const,
+  synthesis: (id: string) => [...reportKeys.detail(id), 'synthesis'] as const,
+};
+
+// A finished report only changes when it is edited or re-analysed, which invalidates it
+const REPORT_STALE_TIME = 5 * 60 * 1000;
+const LIST_STALE_TIME = 30 * 1000;
+const SYNTHESIS_POLL_MS = 3000;
+
+export function useReport(reportId?: string) {
+  return useQuery({
+    queryKey: reportKeys.detail(reportId),
+    queryFn: () => withOfflineFallback(reportKeys.detail(reportId), async () => {
+      const report = await getReport(reportId);
+      cacheImages([report.image_url, ...(report.pages ?? []).map(page => page.image_url)]);
+      return report;
+    }),
+    enabled: !!reportId,
+    staleTime: REPORT_STALE_TIME,
+  });
+}
+
+/**
+ * Query for one report's parameters, shared with the trends view so both read the same cache
+ */
+export function reportParametersQuery(reportId?: string) {
+  return {
+    queryKey: reportKeys.parameters(reportId),
+    queryFn: () => withOfflineFallback(reportKeys.parameters(reportId), () => getReportParameters(reportId)),
+    enabled: !!reportId,
+    staleTime: REPORT_STALE_TIME,
+  };
+}
+
+export function useReportParameters(reportId?: string) {
+  return useQuery(reportParametersQuery(reportId));
+}
+
+export function useReports(filters: ReportFilters) {
+  return useQuery({
+    queryKey: reportKeys.list(filters),
+    queryFn: () => withOfflineFallback(reportKeys.list(filters), async () => {
+      const list = await listReports(filters);
+      cacheImages(list.items.map(item => item.image_url));
+      return list;
+    }),
+    staleTime: LIST_STALE_TIME,
+  });
+}
+
+/**
+ * Synthesis of one report, polled while it is still being generated
+ */
+export function useSynthesis(reportId?: string) {
+  return useQuery({
+    queryKey: reportKeys.synthesis(reportId),
+    queryFn: () => withOfflineFallback(reportKeys.synthesis(reportId), () => getReportSynthesis(reportId)),
+    enabled: !!reportId,
+    staleTime: REPORT_STALE_TIME,
+    refetchInterval: (query) => (query.state.data?.status === 'pending' ? SYNTHESIS_POLL_MS : false),
+  });
+}
+
+export function useGenerateSynthesis(reportId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => generateReportSynthesis(reportId),
+    // Refetch straight away to pick up the pending status and start polling
+    onSettled: () => queryClient.invalidateQueries({ queryKey: reportKeys.synthesis(reportId) }),
+  });
+}
+
+/**
+ * Correct a parameter, or add a missed one when no id is given. The report's
+ * flag level can change with it, so the report and the lists are refreshed too.
+ */
+export function useSaveReportParameter(reportId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ parameterId, parameter }: { parameterId?: string; parameter: ExtractedParameter }) =>
+      parameterId
+        ? updateReportParameter(reportId, parameterId, parameter)
+        : addReportParameter(reportId, parameter),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reportKeys.detail(reportId) });
+      queryClient.invalidateQueries({ queryKey: reportKeys.lists() });
+    },
+  });
+}
+
+/**
+ * Rewrite the explanations and smart analysis after results were corrected
+ */
+export function useRegenerateAnalysis(reportId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => Promise.all([
+      regenerateReportExplanations(reportId),
+      generateReportSynthesis(reportId, { regenerate: true }),
+    ]),
+    // Picks up the new explanations and the pending synthesis, which starts polling
+    onSettled: () => queryClient.invalidateQueries({ queryKey: reportKeys.detail(reportId) }),
+  });
+}
+
+/**
+ * Delete reports, removing them from every cached list before the server confirms.
+ * Offline, the deletes are queued and the lists stay as they are until replay.
+ */
+export function useDeleteReports() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (reportIds: string[]) => {
+      const results = await Promise.all(reportIds.map(reportId => sendOrQueue({ type: 'delete-report', reportId })));
+      return { queued: results.some(result => result.queued) };
+    },
+    onMutate: async (reportIds) => {
+      await queryClient.cancelQueries({ queryKey: reportKeys.lists() });
+      const previousLists = queryClient.getQueriesData<ReportList>({ queryKey: reportKeys.lists() });
+
+      queryClient.setQueriesData<ReportList>({ queryKey: reportKeys.lists() }, (list) => {
+        if (!list) return list;
+        const items = list.items.filter(item => !reportIds.includes(item.id));
+        return { ...list, items, total: list.total - (list.items.length - items.length) };
+      });
+
+      return { previousLists };
+    },
+    onError: (_error, _reportIds, context) => {
+      context?.previousLists.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+      queryClient.invalidateQueries({ queryKey: reportKeys.lists() });
+    },
+    onSuccess: ({ queued }, reportIds) => {
+      reportIds.forEach(id => queryClient.removeQueries({ queryKey: reportKeys.detail(id) }));
+      if (queued) {
+        // Keep the offline copy in step, or a reload would bring the reports back
+        queryClient.getQueriesData<ReportList>({ queryKey: reportKeys.lists() })
+          .forEach(([queryKey, data]) => cacheQueryData(queryKey, data));
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: reportKeys.lists() });
+    },
+  });
+}
@@ -0,0 +1,47 @@
+import { useMemo } from 'react';
+import { useQueries, UseQueryResult } from '@tanstack/react-query';
+import type { ReportParameter } from '@/lib/api';
+import { collectBiomarkers } from '@/lib/trends';
+import type { UnitSystem } from '@/lib/units';
+import { useReports, reportParametersQuery } from '@/hooks/use-reports';
+
+// Enough for years of regular tests; the parameters of each are fetched once and cached
+const HISTORY_LIMIT = 100;
+
+// Module level so its result stays referentially stable between renders
+function combineParameterQueries(results: UseQueryResult<ReportParameter[]>[]) {
+  return {
+    data: results.map(result => result.data),
+    isPending: results.some(result => result.isPending),
+    error: results.find(result => result.error)?.error ?? null,
+  };
+}
+
+/**
+ * Every numeric biomarker across a person's completed reports, in the given units.
+ * Pass a family member's user id to follow their results instead.
+ */
+export function useBiomarkers(unitSystem: UnitSystem, userId?: string) {
+  const reportsQuery = useReports({ page: 1, limit: HISTORY_LIMIT, status: 'completed', user_id: userId });
+  const reports = useMemo(() => reportsQuery.data?.items ?? [], [reportsQuery.data]);
+
+  const parameterQueries = useQueries({
+    queries: reports.map(report => reportParametersQuery(report.id)),
+    combine: combineParameterQueries,
+  });
+
+  const biomarkers = useMemo(() => {
+    const parametersByReport = new Map<string, ReportParameter[]>();
+    reports.forEach((report, index) => {
+      const parameters = parameterQueries.data[index];
+      if (parameters) parametersByReport.set(report.id, parameters);
+    });
+    return collectBiomarkers(reports, parametersByReport, unitSystem);
+  }, [reports, parameterQueries.data, unitSystem]);
+
+  return {
+    biomarkers,
+    isPending: reportsQuery.isPending || parameterQueries.isPending,
+    error: reportsQuery.error ?? parameterQueries.error,
+  };
+}
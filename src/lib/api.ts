@@ -2,35 +2,137 @@
  * API Client for MediGuide Backend
  * Handles all communication with FastAPI backend
  */
+import { z } from 'zod';
 import { supabase } from './supabase';
+import {
+  ApiError,
+  UnauthorizedError,
+  RateLimitError,
+  NetworkError,
+  ContractError,
+  errorFromResponse,
+  isApiError,
+} from './errors';
+import { logger } from './logger';
+import { isSandbox, sandboxFetch, sandboxUpload, SANDBOX_API_URL } from './sandbox-mode';
+import {
+  reportSchema,
+  reportListSchema,
+  reportStatusSchema,
+  reportParameterSchema,
+  reportParametersSchema,
+  uploadReportResponseSchema,
+  duplicateReportsSchema,
+  synthesisSchema,
+  synthesisJobSchema,
+  chatMessageSchema,
+  chatHistorySchema,
+  mediBotReplySchema,
+  premiumStatusSchema,
+  familyMembersSchema,
+  familyInviteSchema,
+  messageSchema,
+  Report,
+  ReportList,
+  ReportStatus,
+  ReportParameter,
+  ExtractedParameter,
+  UploadReportResponse,
+  DuplicateReportMatch,
+  Synthesis,
+  ChatMessage,
+  ChatHistory,
+  PremiumStatus,
+  FamilyMember,
+  Infer,
+} from './schemas';
 
-// Backend API base URL
-const API_BASE_URL = import.meta.env.VITE_API_URL;
+export type {
+  Report,
+  ReportList,
+  ReportPage,
+  ReportStatus,
+  ProcessingStage,
+  ReportParameter,
+  ExtractedParameter,
+  ParameterFlag,
+  ParameterExplanation,
+  UploadReportResponse,
+  DuplicateReportMatch,
+  Synthesis,
+  ChatMessage,
+  ChatHistory,
+  PremiumStatus,
+  FamilyMember,
+  FlagLevel,
+} from './schemas';
+
+// Backend API base URL; in sandbox mode requests are answered in the browser (see sandbox.ts)
+const API_BASE_URL: string | undefined = isSandbox ? SANDBOX_API_URL : import.meta.env.VITE_API_URL;
 
 if (!API_BASE_URL) {
-  throw new Error('VITE_API_URL is not defined in environment variables');
+  logger.error('VITE_API_URL is not defined in environment variables; set VITE_SANDBOX=true to use sample data instead');
+}
+
+// A missing URL fails the request rather than the import, so the app still starts
+function apiUrl(endpoint: string): string {
+  if (!API_BASE_URL) {
+    throw new Error('VITE_API_URL is not defined in environment variables');
+  }
+  return `${API_BASE_URL}${endpoint}`;
 }
 
+const send = (url: string, init: RequestInit) => (isSandbox ? sandboxFetch(url, init) : fetch(url, init));
+
+// Idempotent GETs are retried on network failures, rate limits and 5xx responses
+const GET_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 /**
- * Centralized API Client
- * Ensures all requests are authenticated and logged
+ * Wait before retry number `attempt`: the server's Retry-After when rate
+ * limited, otherwise exponential backoff capped at `maxMs`
  */
-async function apiFetch<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const { data: { session } } = await supabase.auth.getSession();
+export function backoffDelay(attempt: number, error: unknown, { baseMs, maxMs }: { baseMs: number; maxMs: number }): number {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, maxMs);
+  }
+  const exponential = Math.min(baseMs * 2 ** (attempt - 1), maxMs);
+  // Full jitter keeps many clients from retrying in lockstep
+  return Math.round(Math.random() * exponential);
+}
+
+const isTransient = (error: ApiError) =>
+  error.kind === 'network' || error.kind === 'server' || error.kind === 'rate-limited';
+
+/**
+ * Current access token, refreshing the session first when asked to
+ */
+async function getAccessToken(forceRefresh = false): Promise<string> {
+  const { data: { session } } = forceRefresh
+    ? await supabase.auth.refreshSession()
+    : await supabase.auth.getSession();
 
   if (!session?.access_token) {
-    console.error("❌ No Supabase session found");
-    throw new Error('User is not authenticated');
+    logger.warn('No Supabase session found');
+    throw new UnauthorizedError('User is not authenticated', { status: 401 });
   }
+  return session.access_token;
+}
 
-  console.log("✅ Using access token:", session.access_token.slice(0, 20), "...");
+/**
+ * Single authenticated request; a 401 refreshes the session once and replays it
+ */
+async function authorizedFetch<T>(endpoint: string, options: RequestInit, refreshed = false): Promise<T> {
+  const accessToken = await getAccessToken(refreshed);
+  const method = (options.method ?? 'GET').toUpperCase();
+  const startedAt = performance.now();
 
   const headers: HeadersInit = {
     ...options.headers,
-    'Authorization': `Bearer ${session.access_token}`,
+    'Authorization': `Bearer ${accessToken}`,
   };
 
   // Auto-set Content-Type to json if not set and body is not FormData
@@ -38,24 +140,27 @@ async function apiFetch<T>(
     headers['Content-Type'] = 'application/json';
   }
 
-  console.log("API REQUEST:", {
-    url: `${API_BASE_URL}${endpoint}`,
-    tokenPresent: !!session?.access_token,
-    tokenPreview: session?.access_token?.slice(0, 20),
-  });
+  let response: Response;
+  try {
+    response = await send(apiUrl(endpoint), {
+      ...options,
+      headers,
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    logger.request({ method, endpoint, status: 0, durationMs: Math.round(performance.now() - startedAt), errorKind: 'network' });
+    throw new NetworkError();
+  }
 
-  console.log("HEADERS SENT:", headers);
+  logger.request({ method, endpoint, status: response.status, durationMs: Math.round(performance.now() - startedAt) });
 
-  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-    ...options,
-    headers,
-  });
+  if (response.status === 401 && !refreshed) {
+    return authorizedFetch<T>(endpoint, options, true);
+  }
 
   if (!response.ok) {
     const errorBody = await response.json().catch(() => ({ message: 'Request failed' }));
-    const error = new Error(errorBody.detail || errorBody.message || `API request failed: ${response.statusText}`);
-    (error as any).status = response.status;
-    throw error;
+    throw errorFromResponse(response.status, errorBody, response.headers, response.statusText);
   }
 
   if (response.status === 204) {
@@ -66,78 +171,231 @@ async function apiFetch<T>(
 }
 
 /**
- * Upload file to backend
+ * Check a response body against its schema; a mismatch is a ContractError
  */
-export async function uploadReport(file: File, reportType?: string): Promise<{
-  report_id: string;
-  status: string;
-  message: string;
-}> {
+function parseResponse<S extends z.ZodTypeAny>(schema: S, data: unknown, endpoint: string): Infer<S> {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data as Infer<S>;
+
+  const path = endpoint.split('?')[0];
+  const issues = result.error.issues.map(issue => ({ path: issue.path.join('.') || '(root)', message: issue.message }));
+  logger.error(`Response from ${path} does not match its schema`, issues);
+  throw new ContractError(path, issues);
+}
+
+/**
+ * Centralized API Client
+ * Ensures all requests are authenticated and recorded in the diagnostics timeline,
+ * and validates the body against `schema`. Rejects with an ApiError subclass.
+ */
+async function apiFetch<S extends z.ZodTypeAny>(
+  endpoint: string,
+  schema: S,
+  options: RequestInit = {}
+): Promise<Infer<S>> {
+  const method = (options.method ?? 'GET').toUpperCase();
+  const maxAttempts = method === 'GET' ? GET_MAX_ATTEMPTS : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return parseResponse(schema, await authorizedFetch<unknown>(endpoint, options), endpoint);
+    } catch (error) {
+      if (!isApiError(error) || !isTransient(error) || attempt >= maxAttempts) throw error;
+      const delay = backoffDelay(attempt, error, { baseMs: RETRY_BASE_DELAY_MS, maxMs: RETRY_MAX_DELAY_MS });
+      logger.info(`Retrying ${method} ${endpoint.split('?')[0]} in ${delay}ms`, { attempt, kind: error.kind });
+      await sleep(delay);
+    }
+  }
+}
+
+export interface UploadDetails {
+  reportType?: string;
+  labName?: string;
+  collectionDate?: string; // YYYY-MM-DD
+  // Upload on behalf of a connected family member; defaults to the signed-in user
+  targetUserId?: string;
+}
+
+export interface UploadOptions extends UploadDetails {
+  // Per-page content fingerprints, stored so later uploads can be checked for duplicates
+  fingerprints?: string[];
+  // Sent as Idempotency-Key so a retried upload cannot create a second report
+  uploadId?: string;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Send the multipart upload once with the given token
+ * Uses XMLHttpRequest rather than fetch so byte-level upload progress is available.
+ */
+function sendUpload(formData: FormData, accessToken: string, options: UploadOptions): Promise<UploadReportResponse> {
+  if (isSandbox) return sendSandboxUpload(formData, accessToken, options);
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+      return;
+    }
+
+    const startedAt = performance.now();
+    const logUpload = (status: number) => logger.request({
+      method: 'POST',
+      endpoint: '/reports/upload',
+      status,
+      durationMs: Math.round(performance.now() - startedAt),
+    });
+
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', apiUrl('/reports/upload'));
+    // Content-Type is left unset so the browser adds the multipart boundary
+    xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+    if (options.uploadId) {
+      xhr.setRequestHeader('Idempotency-Key', options.uploadId);
+    }
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        options.onProgress?.(event.loaded, event.total);
+      }
+    };
+
+    xhr.onload = () => {
+      logUpload(xhr.status);
+      let body: Record<string, unknown> = {};
+      try {
+        body = xhr.responseText ? JSON.parse(xhr.responseText) : {};
+      } catch {
+        body = { message: 'Request failed' };
+      }
+
+      if (xhr.status >= 200 && xhr.status < 300) {
+        try {
+          resolve(parseResponse(uploadReportResponseSchema, body, '/reports/upload'));
+        } catch (error) {
+          reject(error);
+        }
+        return;
+      }
+
+      const headers = { get: (name: string) => xhr.getResponseHeader(name) };
+      reject(errorFromResponse(xhr.status, body, headers, xhr.statusText));
+    };
+
+    // A network-level failure (dropped connection, offline)
+    xhr.onerror = () => {
+      logUpload(0);
+      reject(new NetworkError('Network error during upload'));
+    };
+
+    xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+    options.signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+
+    xhr.send(formData);
+  });
+}
+
+async function sendSandboxUpload(formData: FormData, accessToken: string, options: UploadOptions): Promise<UploadReportResponse> {
+  const response = await sandboxUpload(formData, {
+    accessToken,
+    uploadId: options.uploadId,
+    onProgress: options.onProgress,
+    signal: options.signal,
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw errorFromResponse(response.status, body, response.headers, response.statusText);
+  }
+  return parseResponse(uploadReportResponseSchema, body, '/reports/upload');
+}
+
+/**
+ * Upload one or more pages to the backend as a single report
+ * A single page goes in the original 'file' field; several pages go in page
+ * order under 'files', so the backend receives them as page 1..n.
+ * A 401 refreshes the session and sends the upload once more.
+ */
+export async function uploadReport(files: File[], options: UploadOptions = {}): Promise<UploadReportResponse> {
+  if (files.length === 0) {
+    throw new Error('At least one page is required');
+  }
+
   const formData = new FormData();
-  formData.append('file', file);
-  if (reportType) {
-    formData.append('report_type', reportType);
+  if (files.length === 1) {
+    formData.append('file', files[0]);
+  } else {
+    files.forEach((file) => formData.append('files', file));
+  }
+  if (options.reportType) {
+    formData.append('report_type', options.reportType);
+  }
+  if (options.labName) {
+    formData.append('lab_name', options.labName);
+  }
+  if (options.collectionDate) {
+    formData.append('collection_date', options.collectionDate);
+  }
+  if (options.targetUserId) {
+    formData.append('target_user_id', options.targetUserId);
+  }
+  if (options.fingerprints?.length) {
+    formData.append('fingerprints', JSON.stringify(options.fingerprints));
   }
 
-  // apiFetch will handle auth headers. 
-  // We do NOT set Content-Type here so apiFetch/fetch detects FormData and sets multipart boundary
-  return apiFetch('/reports/upload', {
+  try {
+    return await sendUpload(formData, await getAccessToken(), options);
+  } catch (error) {
+    // Only a 401 from the server is worth a refresh; a missing session (no body) is final
+    if (!(error instanceof UnauthorizedError) || error.body === undefined) throw error;
+    return sendUpload(formData, await getAccessToken(true), options);
+  }
+}
+
+/**
+ * Find already uploaded reports whose pages match the given fingerprints.
+ * Perceptual hashes are compared server-side with a Hamming distance tolerance.
+ */
+export async function findDuplicateReports(
+  fingerprints: string[],
+  targetUserId?: string
+): Promise<{ matches: DuplicateReportMatch[] }> {
+  return apiFetch('/reports/duplicates', duplicateReportsSchema, {
     method: 'POST',
-    body: formData,
+    body: JSON.stringify({ fingerprints, target_user_id: targetUserId }),
   });
 }
 
 /**
  * Get report processing status
  */
-export async function getReportStatus(reportId: string): Promise<{
-  report_id: string;
-  status: 'processing' | 'completed' | 'failed';
-  progress?: number;
-  error_message?: string;
-}> {
-  return apiFetch(`/reports/${reportId}/status`);
+export async function getReportStatus(reportId: string): Promise<ReportStatus> {
+  return apiFetch(`/reports/${reportId}/status`, reportStatusSchema);
 }
 
 /**
  * Get report details
  */
-export async function getReport(reportId: string): Promise<{
-  id: string;
-  user_id: string;
-  date: string;
-  type: string;
-  lab_name?: string;
-  flag_level: 'green' | 'yellow' | 'red';
-  uploaded_to_abdm: boolean;
-  status: 'processing' | 'completed' | 'failed';
-  image_url?: string;
-  created_at: string;
-  updated_at: string;
-}> {
-  return apiFetch(`/reports/${reportId}`);
+export async function getReport(reportId: string): Promise<Report> {
+  return apiFetch(`/reports/${reportId}`, reportSchema);
 }
 
 /**
  * Get report synthesis (smart summary)
  */
-export async function getReportSynthesis(reportId: string): Promise<{
-  status_summary: string;
-  key_trends: string[];
-  doctor_precis: string;
-  status: string; // Added status
-}> {
-  return apiFetch(`/reports/${reportId}/synthesis`);
+export async function getReportSynthesis(reportId: string): Promise<Synthesis> {
+  return apiFetch(`/reports/${reportId}/synthesis`, synthesisSchema);
 }
 
 /**
- * Trigger synthesis generation
+ * Trigger synthesis generation. `regenerate` replaces a finished synthesis,
+ * e.g. after the report's results were corrected.
  */
-export async function generateReportSynthesis(reportId: string): Promise<{
+export async function generateReportSynthesis(reportId: string, options?: { regenerate?: boolean }): Promise<{
   status: string;
-  message: string;
+  message?: string;
 }> {
-  return apiFetch(`/reports/${reportId}/generate-synthesis`, {
+  const query = options?.regenerate ? '?regenerate=true' : '';
+  return apiFetch(`/reports/${reportId}/generate-synthesis${query}`, synthesisJobSchema, {
     method: 'POST',
   });
 }
@@ -146,7 +404,7 @@ export async function generateReportSynthesis(reportId: string): Promise<{
  * Delete a report
  */
 export async function deleteReport(reportId: string): Promise<void> {
-  return apiFetch(`/reports/${reportId}`, {
+  await apiFetch(`/reports/${reportId}`, z.unknown(), {
     method: 'DELETE',
   });
 }
@@ -163,14 +421,7 @@ export async function listReports(params?: {
   limit?: number;
   user_id?: string;
   status?: string;
-}): Promise<{
-  items: any[];
-  total: number;
-  page: number;
-  limit: number;
-  has_next: boolean;
-  has_prev: boolean;
-}> {
+}): Promise<ReportList> {
   const queryParams = new URLSearchParams();
   if (params?.search) queryParams.append('search', params.search);
   if (params?.report_type) queryParams.append('report_type', params.report_type);
@@ -181,27 +432,48 @@ export async function listReports(params?: {
   if (params?.limit) queryParams.append('limit', params.limit.toString());
   if (params?.user_id) queryParams.append('target_user_id', params.user_id);
 
-  return apiFetch(`/reports?${queryParams.toString()}`);
+  return apiFetch(`/reports?${queryParams.toString()}`, reportListSchema);
 }
 
 /**
  * Get report parameters with explanations
  */
-export async function getReportParameters(reportId: string): Promise<Array<{
-  id: string;
-  name: string;
-  value: string;
-  unit?: string;
-  normal_range: string;
-  flag: 'normal' | 'high' | 'low';
-  report_explanations?: Array<{
-    what: string;
-    meaning: string;
-    causes: string[];
-    next_steps: string[];
-  }>;
-}>> {
-  return apiFetch(`/reports/${reportId}/parameters`);
+export async function getReportParameters(reportId: string): Promise<ReportParameter[]> {
+  return apiFetch(`/reports/${reportId}/parameters`, reportParametersSchema);
+}
+
+/**
+ * Correct an extracted parameter. The server keeps the first extraction as
+ * `original` and updates the report's flag level.
+ */
+export async function updateReportParameter(
+  reportId: string,
+  parameterId: string,
+  parameter: ExtractedParameter
+): Promise<ReportParameter> {
+  return apiFetch(`/reports/${reportId}/parameters/${parameterId}`, reportParameterSchema, {
+    method: 'PATCH',
+    body: JSON.stringify(parameter),
+  });
+}
+
+/**
+ * Add a result that extraction missed
+ */
+export async function addReportParameter(reportId: string, parameter: ExtractedParameter): Promise<ReportParameter> {
+  return apiFetch(`/reports/${reportId}/parameters`, reportParameterSchema, {
+    method: 'POST',
+    body: JSON.stringify(parameter),
+  });
+}
+
+/**
+ * Rewrite the explanations of a report's abnormal parameters after corrections
+ */
+export async function regenerateReportExplanations(reportId: string): Promise<ReportParameter[]> {
+  return apiFetch(`/reports/${reportId}/regenerate-explanations`, reportParametersSchema, {
+    method: 'POST',
+  });
 }
 
 /**
@@ -210,15 +482,8 @@ export async function getReportParameters(reportId: string): Promise<Array<{
 export async function sendChatMessage(
   reportId: string,
   message: string
-): Promise<{
-  id: string;
-  report_id: string;
-  user_id: string;
-  message: string;
-  response: string;
-  created_at: string;
-}> {
-  return apiFetch(`/chat/reports/${reportId}/message`, {
+): Promise<ChatMessage> {
+  return apiFetch(`/chat/reports/${reportId}/message`, chatMessageSchema, {
     method: 'POST',
     body: JSON.stringify({ message, report_id: reportId }),
   });
@@ -227,69 +492,57 @@ export async function sendChatMessage(
 /**
  * Get chat history
  */
-export async function getChatHistory(reportId: string): Promise<{
-  messages: Array<{
-    id: string;
-    message: string;
-    response: string;
-    created_at: string;
-  }>;
-  total: number;
-}> {
-  return apiFetch(`/chat/reports/${reportId}/history`);
+export async function getChatHistory(reportId: string): Promise<ChatHistory> {
+  return apiFetch(`/chat/reports/${reportId}/history`, chatHistorySchema);
 }
 
 /**
  * Get premium status
  */
-export async function getPremiumStatus(): Promise<{
-  is_premium: boolean;
-  subscription_tier: 'free' | 'premium';
-  expires_at?: string;
-  reports_used_this_month: number;
-  reports_limit: number | null;
-  family_members_count: number;
-  family_members_limit: number | null;
-}> {
-  return apiFetch('/premium/status');
+export async function getPremiumStatus(): Promise<PremiumStatus> {
+  return apiFetch('/premium/status', premiumStatusSchema);
 }
 // Family
-export interface FamilyMember {
-  connection_id: string;
-  user_id: string;
-  display_name?: string;
-  profile_name?: string;
-  phone?: string;
-  status: 'good' | 'needs-review' | 'critical' | 'pending';
-  connection_status: 'connected' | 'pending-sent' | 'pending-received';
-  created_at: string;
-}
-
 export async function getFamilyMembers(): Promise<FamilyMember[]> {
-  return apiFetch('/family/members');
+  return apiFetch('/family/members', familyMembersSchema);
 }
 
-export async function inviteFamilyMember(data: { email?: string; phone_number?: string; nickname?: string; target_user_id?: string }): Promise<{ connection_id: string; message: string }> {
-  return apiFetch('/family/invite', {
+export async function inviteFamilyMember(data: { email?: string; phone_number?: string; nickname?: string; target_user_id?: string }): Promise<{ connection_id: string; message?: string }> {
+  return apiFetch('/family/invite', familyInviteSchema, {
     method: 'POST',
     body: JSON.stringify(data),
   });
 }
 
-export async function acceptFamilyConnection(connectionId: string, display_name?: string): Promise<{ message: string }> {
-  return apiFetch(`/family/accept/${connectionId}`, {
+export async function acceptFamilyConnection(connectionId: string, display_name?: string): Promise<{ message?: string }> {
+  return apiFetch(`/family/accept/${connectionId}`, messageSchema, {
     method: 'POST',
     body: JSON.stringify({ display_name }),
   });
 }
 
-export async function renameFamilyConnection(connectionId: string, display_name: string): Promise<{ message: string }> {
-  return apiFetch(`/family/connections/${connectionId}/rename`, {
+export async function renameFamilyConnection(connectionId: string, display_name: string): Promise<{ message?: string }> {
+  return apiFetch(`/family/connections/${connectionId}/rename`, messageSchema, {
     method: 'PATCH',
     body: JSON.stringify({ display_name }),
   });
 }
 
+// Push notifications
+export async function savePushSubscription(subscription: PushSubscriptionJSON): Promise<{ message?: string }> {
+  return apiFetch('/notifications/push-subscriptions', messageSchema, {
+    method: 'POST',
+    body: JSON.stringify(subscription),
+  });
+}
+
+export async function deletePushSubscription(endpoint: string): Promise<void> {
+  await apiFetch('/notifications/push-subscriptions', z.unknown(), {
+    method: 'DELETE',
+    body: JSON.stringify({ endpoint }),
+  });
+}
+
 /**
  * Ask MediBot a question (NEW V1)
  */
@@ -297,7 +550,7 @@ export async function askMediBot(
   reportId: string,
   question: string
 ): Promise<{ response: string }> {
-  return apiFetch('/chatbot/ask', {
+  return apiFetch('/chatbot/ask', mediBotReplySchema, {
     method: 'POST',
     body: JSON.stringify({ report_id: reportId, question }),
   });
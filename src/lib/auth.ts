@@ -1,5 +1,7 @@
 import { supabase } from './supabase';
 import type { User, Session, AuthError } from '@supabase/supabase-js';
+import { logger } from './logger';
+import { disablePushNotifications } from './pwa';
 
 /**
  * Authentication utility functions
@@ -174,6 +176,8 @@ export async function signIn(email: string, password: string): Promise<AuthRespo
  */
 export async function signOut(): Promise<{ error: AuthError | null }> {
   try {
+    // Unsubscribe while the session can still authorize it, or the next user gets these notifications
+    await disablePushNotifications().catch((error) => logger.warn('Could not remove push subscription:', error));
     const { error } = await supabase.auth.signOut();
     return { error };
   } catch (error) {
@@ -190,7 +194,7 @@ export async function getSession(): Promise<Session | null> {
     const { data: { session } } = await supabase.auth.getSession();
     return session;
   } catch (error) {
-    console.error('Error getting session:', error);
+    logger.error('Error getting session:', error);
     return null;
   }
 }
@@ -204,7 +208,7 @@ export async function getCurrentUser(): Promise<User | null> {
     const { data: { user } } = await supabase.auth.getUser();
     return user;
   } catch (error) {
-    console.error('Error getting user:', error);
+    logger.error('Error getting user:', error);
     return null;
   }
 }
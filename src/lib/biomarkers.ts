@@ -0,0 +1,283 @@
+/**
+ * Biomarker catalog
+ * Maps the free-text parameter names that extraction returns ("Hb",
+ * "Haemoglobin", "HGB", "Hemoglobin (Photometry)") to one canonical analyte,
+ * so the same test lines up across labs
+ */
+
+export type BiomarkerCategory = 'hematology' | 'lipids' | 'liver' | 'renal' | 'thyroid' | 'diabetes';
+
+export interface Analyte {
+  id: string;
+  displayName: string;
+  loinc: string;
+  category: BiomarkerCategory;
+  unit: string; // the unit most Indian labs report in
+  synonyms: string[];
+}
+
+export const CATEGORY_LABELS: Record<BiomarkerCategory, string> = {
+  hematology: 'Blood Count',
+  lipids: 'Lipids',
+  liver: 'Liver',
+  renal: 'Kidney',
+  thyroid: 'Thyroid',
+  diabetes: 'Blood Sugar',
+};
+
+export const ANALYTES: Analyte[] = [
+  // Hematology
+  {
+    id: 'hemoglobin', displayName: 'Hemoglobin', loinc: '718-7', category: 'hematology', unit: 'g/dL',
+    synonyms: ['hb', 'hgb', 'haemoglobin', 'hemoglobin'],
+  },
+  {
+    id: 'hematocrit', displayName: 'Hematocrit', loinc: '4544-3', category: 'hematology', unit: '%',
+    synonyms: ['hct', 'pcv', 'packed cell volume', 'haematocrit'],
+  },
+  {
+    id: 'rbc', displayName: 'RBC Count', loinc: '789-8', category: 'hematology', unit: '10^6/µL',
+    synonyms: ['rbc', 'rbc count', 'total rbc count', 'red blood cell count', 'red blood cells', 'erythrocyte count'],
+  },
+  {
+    id: 'wbc', displayName: 'WBC Count', loinc: '6690-2', category: 'hematology', unit: '10^3/µL',
+    synonyms: [
+      'wbc', 'wbc count', 'white blood cell count', 'white blood cells', 'tlc', 'total leukocyte count',
+      'total wbc count', 'leukocyte count', 'leukocytes',
+    ],
+  },
+  {
+    id: 'platelets', displayName: 'Platelet Count', loinc: '777-3', category: 'hematology', unit: '10^3/µL',
+    synonyms: ['plt', 'platelets', 'platelet count', 'thrombocyte count'],
+  },
+  {
+    id: 'mcv', displayName: 'MCV', loinc: '787-2', category: 'hematology', unit: 'fL',
+    synonyms: ['mcv', 'mean corpuscular volume', 'mean cell volume'],
+  },
+  {
+    id: 'mch', displayName: 'MCH', loinc: '785-6', category: 'hematology', unit: 'pg',
+    synonyms: ['mch', 'mean corpuscular hemoglobin', 'mean cell hemoglobin'],
+  },
+  {
+    id: 'mchc', displayName: 'MCHC', loinc: '786-4', category: 'hematology', unit: 'g/dL',
+    synonyms: ['mchc', 'mean corpuscular hemoglobin concentration', 'mean cell hemoglobin concentration'],
+  },
+  {
+    id: 'rdw', displayName: 'RDW', loinc: '788-0', category: 'hematology', unit: '%',
+    synonyms: ['rdw', 'rdw cv', 'red cell distribution width'],
+  },
+  {
+    id: 'esr', displayName: 'ESR', loinc: '4537-7', category: 'hematology', unit: 'mm/hr',
+    synonyms: ['esr', 'erythrocyte sedimentation rate', 'sed rate'],
+  },
+
+  // Lipids
+  {
+    id: 'total-cholesterol', displayName: 'Total Cholesterol', loinc: '2093-3', category: 'lipids', unit: 'mg/dL',
+    synonyms: ['cholesterol', 'total cholesterol', 'cholesterol total', 'tc'],
+  },
+  {
+    id: 'ldl', displayName: 'LDL Cholesterol', loinc: '13457-7', category: 'lipids', unit: 'mg/dL',
+    synonyms: ['ldl', 'ldl c', 'ldl cholesterol', 'cholesterol ldl', 'low density lipoprotein', 'ldl direct', 'ldl calculated'],
+  },
+  {
+    id: 'hdl', displayName: 'HDL Cholesterol', loinc: '2085-9', category: 'lipids', unit: 'mg/dL',
+    synonyms: ['hdl', 'hdl c', 'hdl cholesterol', 'cholesterol hdl', 'high density lipoprotein', 'hdl direct'],
+  },
+  {
+    id: 'triglycerides', displayName: 'Triglycerides', loinc: '2571-8', category: 'lipids', unit: 'mg/dL',
+    synonyms: ['tg', 'triglyceride', 'triglycerides', 'trigs'],
+  },
+  {
+    id: 'vldl', displayName: 'VLDL Cholesterol', loinc: '13458-5', category: 'lipids', unit: 'mg/dL',
+    synonyms: ['vldl', 'vldl c', 'vldl cholesterol', 'very low density lipoprotein'],
+  },
+  {
+    id: 'non-hdl', displayName: 'Non-HDL Cholesterol', loinc: '43396-1', category: 'lipids', unit: 'mg/dL',
+    synonyms: ['non hdl', 'non hdl cholesterol', 'non hdl c'],
+  },
+
+  // Liver
+  {
+    id: 'alt', displayName: 'ALT (SGPT)', loinc: '1742-6', category: 'liver', unit: 'U/L',
+    synonyms: ['alt', 'sgpt', 'alt sgpt', 'sgpt alt', 'alanine aminotransferase', 'alanine transaminase'],
+  },
+  {
+    id: 'ast', displayName: 'AST (SGOT)', loinc: '1920-8', category: 'liver', unit: 'U/L',
+    synonyms: ['ast', 'sgot', 'ast sgot', 'sgot ast', 'aspartate aminotransferase', 'aspartate transaminase'],
+  },
+  {
+    id: 'alp', displayName: 'Alkaline Phosphatase', loinc: '6768-6', category: 'liver', unit: 'U/L',
+    synonyms: ['alp', 'alkaline phosphatase', 'alk phos'],
+  },
+  {
+    id: 'ggt', displayName: 'GGT', loinc: '2324-2', category: 'liver', unit: 'U/L',
+    synonyms: ['ggt', 'ggtp', 'gamma gt', 'gamma glutamyl transferase', 'gamma glutamyl transpeptidase'],
+  },
+  {
+    id: 'total-bilirubin', displayName: 'Total Bilirubin', loinc: '1975-2', category: 'liver', unit: 'mg/dL',
+    synonyms: ['bilirubin', 'total bilirubin', 'bilirubin total', 't bilirubin'],
+  },
+  {
+    id: 'direct-bilirubin', displayName: 'Direct Bilirubin', loinc: '1968-7', category: 'liver', unit: 'mg/dL',
+    synonyms: ['direct bilirubin', 'bilirubin direct', 'conjugated bilirubin', 'd bilirubin'],
+  },
+  {
+    id: 'indirect-bilirubin', displayName: 'Indirect Bilirubin', loinc: '1971-1', category: 'liver', unit: 'mg/dL',
+    synonyms: ['indirect bilirubin', 'bilirubin indirect', 'unconjugated bilirubin'],
+  },
+  {
+    id: 'albumin', displayName: 'Albumin', loinc: '1751-7', category: 'liver', unit: 'g/dL',
+    synonyms: ['albumin', 'alb'],
+  },
+  {
+    id: 'total-protein', displayName: 'Total Protein', loinc: '2885-2', category: 'liver', unit: 'g/dL',
+    synonyms: ['total protein', 'protein total', 'total proteins'],
+  },
+  {
+    id: 'globulin', displayName: 'Globulin', loinc: '2336-0', category: 'liver', unit: 'g/dL',
+    synonyms: ['globulin'],
+  },
+
+  // Renal
+  {
+    id: 'creatinine', displayName: 'Creatinine', loinc: '2160-0', category: 'renal', unit: 'mg/dL',
+    synonyms: ['creatinine', 'creat'],
+  },
+  {
+    id: 'urea', displayName: 'Urea', loinc: '3091-6', category: 'renal', unit: 'mg/dL',
+    synonyms: ['urea', 'blood urea'],
+  },
+  {
+    id: 'bun', displayName: 'Blood Urea Nitrogen', loinc: '3094-0', category: 'renal', unit: 'mg/dL',
+    synonyms: ['bun', 'blood urea nitrogen', 'urea nitrogen'],
+  },
+  {
+    id: 'uric-acid', displayName: 'Uric Acid', loinc: '3084-1', category: 'renal', unit: 'mg/dL',
+    synonyms: ['uric acid', 'urate'],
+  },
+  {
+    id: 'egfr', displayName: 'eGFR', loinc: '98979-8', category: 'renal', unit: 'mL/min/1.73m²',
+    synonyms: ['egfr', 'gfr', 'estimated gfr', 'estimated glomerular filtration rate'],
+  },
+  {
+    id: 'sodium', displayName: 'Sodium', loinc: '2951-2', category: 'renal', unit: 'mmol/L',
+    synonyms: ['sodium', 'na', 'na+'],
+  },
+  {
+    id: 'potassium', displayName: 'Potassium', loinc: '2823-3', category: 'renal', unit: 'mmol/L',
+    synonyms: ['potassium', 'k', 'k+'],
+  },
+  {
+    id: 'chloride', displayName: 'Chloride', loinc: '2075-0', category: 'renal', unit: 'mmol/L',
+    synonyms: ['chloride', 'cl', 'cl-'],
+  },
+
+  // Thyroid
+  {
+    id: 'tsh', displayName: 'TSH', loinc: '3016-3', category: 'thyroid', unit: 'µIU/mL',
+    synonyms: ['tsh', 'thyroid stimulating hormone', 'thyrotropin', 'tsh ultrasensitive', 'ultrasensitive tsh'],
+  },
+  {
+    id: 'free-t4', displayName: 'Free T4', loinc: '3024-7', category: 'thyroid', unit: 'ng/dL',
+    synonyms: ['free t4', 'ft4', 'free thyroxine', 't4 free'],
+  },
+  {
+    id: 'free-t3', displayName: 'Free T3', loinc: '3051-0', category: 'thyroid', unit: 'pg/mL',
+    synonyms: ['free t3', 'ft3', 'free triiodothyronine', 't3 free'],
+  },
+  {
+    id: 'total-t4', displayName: 'Total T4', loinc: '3026-2', category: 'thyroid', unit: 'µg/dL',
+    synonyms: ['t4', 'total t4', 't4 total', 'thyroxine'],
+  },
+  {
+    id: 'total-t3', displayName: 'Total T3', loinc: '3053-6', category: 'thyroid', unit: 'ng/dL',
+    synonyms: ['t3', 'total t3', 't3 total', 'triiodothyronine'],
+  },
+
+  // Diabetes
+  {
+    id: 'hba1c', displayName: 'HbA1c', loinc: '4548-4', category: 'diabetes', unit: '%',
+    synonyms: ['hba1c', 'a1c', 'hemoglobin a1c', 'glycated hemoglobin', 'glycosylated hemoglobin', 'glycohemoglobin'],
+  },
+  {
+    id: 'eag', displayName: 'Estimated Average Glucose', loinc: '27353-2', category: 'diabetes', unit: 'mg/dL',
+    synonyms: ['eag', 'estimated average glucose', 'mean blood glucose', 'average blood glucose'],
+  },
+  {
+    id: 'fasting-glucose', displayName: 'Fasting Blood Glucose', loinc: '1558-6', category: 'diabetes', unit: 'mg/dL',
+    synonyms: [
+      'fbs', 'fbg', 'fpg', 'fasting blood sugar', 'fasting blood glucose', 'fasting glucose', 'glucose fasting',
+      'fasting plasma glucose', 'blood sugar fasting',
+    ],
+  },
+  {
+    id: 'postprandial-glucose', displayName: 'Post-meal Blood Glucose', loinc: '1521-4', category: 'diabetes', unit: 'mg/dL',
+    synonyms: [
+      'ppbs', 'ppbg', 'pp blood sugar', 'post prandial blood sugar', 'postprandial blood sugar',
+      'post prandial glucose', 'postprandial glucose', 'glucose pp', 'glucose post prandial', 'blood sugar pp',
+    ],
+  },
+  {
+    // Unqualified glucose is usually a random sample
+    id: 'glucose', displayName: 'Blood Glucose', loinc: '2345-7', category: 'diabetes', unit: 'mg/dL',
+    synonyms: ['glucose', 'blood glucose', 'blood sugar', 'rbs', 'random blood sugar', 'random blood glucose', 'glucose random'],
+  },
+];
+
+// Words labs add that do not change which analyte was measured
+const QUALIFIERS = /\b(serum|plasma|whole blood|s)\b/g;
+
+// Specimens other than blood. The catalog is of blood tests, and urine
+// creatinine or glucose would otherwise land on the serum analyte's trend
+const OTHER_SPECIMENS = /\b(urine|urinary|csf|fluid|stool|fecal|sputum|semen|saliva)\b/;
+
+/**
+ * Lower-case, British spellings folded to American, punctuation and
+ * specimen qualifiers ("Serum", "S.") dropped
+ */
+export function normalizeParameterName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/haem/g, 'hem')
+    .replace(/leuco/g, 'leuko')
+    .replace(/[^a-z0-9+]+/g, ' ')
+    .replace(QUALIFIERS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const analytesByName = new Map<string, Analyte>();
+ANALYTES.forEach(analyte => {
+  [analyte.id, analyte.displayName, ...analyte.synonyms].forEach(name => {
+    analytesByName.set(normalizeParameterName(name), analyte);
+  });
+});
+
+/**
+ * The analyte a printed parameter name refers to, if it is in the catalog.
+ * Method notes in brackets ("Hemoglobin (Photometry)") are ignored, and an
+ * abbreviation in brackets ("Glycated Hemoglobin (HbA1c)") is tried on its own.
+ * A specimen other than blood ("Creatinine (Urine)") is never a catalog
+ * analyte; such tests keep their own name, and so their own trend.
+ */
+export function findAnalyte(name: string): Analyte | null {
+  if (OTHER_SPECIMENS.test(normalizeParameterName(name))) return null;
+
+  const bracketed = name.match(/\(([^)]*)\)/g)?.map(part => part.slice(1, -1)) ?? [];
+  const candidates = [name, name.replace(/\([^)]*\)/g, ' '), ...bracketed];
+
+  for (const candidate of candidates) {
+    const analyte = analytesByName.get(normalizeParameterName(candidate));
+    if (analyte) return analyte;
+  }
+  return null;
+}
+
+/**
+ * Extraction passes patient details (age, sex, summaries) through the
+ * parameter list as METADATA_* rows; they are not test results
+ */
+export const isMetadataParameter = (name: string) => name.startsWith('METADATA_');
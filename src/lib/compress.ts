@@ -0,0 +1,114 @@
+/**
+ * Image normalization for uploads
+ * Converts gallery picks and captures into an upright, metadata-free JPEG
+ * at an OCR-friendly resolution and within the upload size budget
+ */
+import { loadImage } from './scan';
+
+export interface NormalizedImage {
+  file: File;
+  originalSize: number;
+}
+
+// Long side of ~2800px keeps A4 text around 240 dpi, plenty for OCR
+const MAX_DIMENSION = 2800;
+const SIZE_BUDGET_BYTES = 1.5 * 1024 * 1024;
+const START_QUALITY = 0.9;
+const MIN_QUALITY = 0.6;
+const QUALITY_STEP = 0.08;
+const DOWNSCALE_STEP = 0.85;
+
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+export const isHeicFile = (file: File) =>
+  HEIC_TYPES.includes(file.type.toLowerCase()) || /\.hei[cf]$/i.test(file.name);
+
+type Decoded = ImageBitmap | HTMLImageElement;
+
+/**
+ * Decode with EXIF orientation applied, so sideways phone photos come out upright
+ */
+async function decodeUpright(blob: Blob): Promise<Decoded> {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    } catch {
+      // Fall through to <img>, which also honours EXIF orientation in current browsers
+    }
+  }
+  return loadImage(blob);
+}
+
+async function decodeImage(file: File): Promise<Decoded> {
+  try {
+    return await decodeUpright(file);
+  } catch (error) {
+    if (!isHeicFile(file)) throw error;
+
+    // Only Safari decodes HEIC natively; elsewhere convert it first (loaded on demand, it is large)
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.95 });
+    return decodeUpright(Array.isArray(converted) ? converted[0] : converted);
+  }
+}
+
+function encode(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      'image/jpeg',
+      quality
+    );
+  });
+}
+
+/**
+ * Re-encode an image as a normalized JPEG.
+ * Drawing through a canvas drops all EXIF metadata, including GPS location.
+ */
+export async function normalizeImageFile(file: File): Promise<NormalizedImage> {
+  const image = await decodeImage(file);
+  const width = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+  const height = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+
+  let scale = Math.min(1, MAX_DIMENSION / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported on this device');
+
+  let blob: Blob | null = null;
+
+  // Lower the quality first, then the resolution, until the page fits the budget
+  while (!blob || blob.size > SIZE_BUDGET_BYTES) {
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    // Transparent PNG/WebP areas would turn black in JPEG
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    for (let quality = START_QUALITY; quality >= MIN_QUALITY; quality -= QUALITY_STEP) {
+      blob = await encode(canvas, quality);
+      if (blob.size <= SIZE_BUDGET_BYTES) break;
+    }
+
+    if (blob.size <= SIZE_BUDGET_BYTES || Math.max(canvas.width, canvas.height) < 1000) break;
+    scale *= DOWNSCALE_STEP;
+  }
+
+  if (image instanceof ImageBitmap) image.close();
+
+  const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+  return {
+    file: new File([blob], name, { type: 'image/jpeg', lastModified: Date.now() }),
+    originalSize: file.size,
+  };
+}
+
+/**
+ * Human-readable file size, e.g. "4.2 MB" or "780 KB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
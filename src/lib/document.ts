@@ -0,0 +1,390 @@
+/**
+ * On-device document processing for camera captures
+ * Finds the page edges, flattens the perspective and cleans the page up for OCR
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export type EnhanceMode = 'original' | 'enhanced' | 'bw';
+
+export interface DetectionResult {
+  corners: Quad;
+  detected: boolean;
+}
+
+// Detection runs on a small copy of the frame; the page outline does not need more detail
+const DETECTION_SIZE = 256;
+// Warped pages are capped on their longest side to bound memory on phones
+const MAX_OUTPUT_SIZE = 2400;
+// The page must cover at least this share of the frame to count as detected
+const MIN_PAGE_AREA = 0.15;
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * Draw an image into a canvas at its natural size, or scaled down to fit maxSize
+ */
+export function imageToCanvas(image: HTMLImageElement | HTMLCanvasElement, maxSize = Infinity): HTMLCanvasElement {
+  const width = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+  const height = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Default outline used when no page can be found: a slightly inset full frame
+ */
+export function defaultCorners(width: number, height: number): Quad {
+  const dx = width * 0.04;
+  const dy = height * 0.04;
+  return [
+    { x: dx, y: dy },
+    { x: width - dx, y: dy },
+    { x: width - dx, y: height - dy },
+    { x: dx, y: height - dy },
+  ];
+}
+
+function otsuThreshold(gray: Uint8ClampedArray): number {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach((value) => histogram[value]++);
+
+  const total = gray.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = 0;
+  let threshold = 127;
+
+  for (let i = 0; i < 256; i++) {
+    weightBackground += histogram[i];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += i * histogram[i];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = i;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * Find the page in an image.
+ * The page is taken to be the largest bright region after Otsu thresholding;
+ * its corners are the extreme points along the two diagonals.
+ */
+export function detectDocumentCorners(image: HTMLImageElement | HTMLCanvasElement): DetectionResult {
+  const small = imageToCanvas(image, DETECTION_SIZE);
+  const { width, height } = small;
+  const fullWidth = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+  const fullHeight = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+  const fallback: DetectionResult = { corners: defaultCorners(fullWidth, fullHeight), detected: false };
+
+  const context = small.getContext('2d');
+  if (!context) return fallback;
+  const { data } = context.getImageData(0, 0, width, height);
+
+  // Grayscale with a 3x3 box blur to suppress print and texture
+  const raw = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < raw.length; i++) {
+    raw[i] = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  }
+  const gray = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let total = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
+            total += raw[ny * width + nx];
+            count++;
+          }
+        }
+      }
+      gray[y * width + x] = total / count;
+    }
+  }
+
+  const threshold = otsuThreshold(gray);
+
+  // Label connected bright regions and keep the largest
+  const labels = new Int32Array(width * height);
+  const queue = new Int32Array(width * height);
+  let bestLabel = 0;
+  let bestSize = 0;
+  let nextLabel = 1;
+
+  for (let start = 0; start < gray.length; start++) {
+    if (labels[start] !== 0 || gray[start] <= threshold) continue;
+
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = nextLabel;
+
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const y = (index - x) / width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour >= 0 && labels[neighbour] === 0 && gray[neighbour] > threshold) {
+          labels[neighbour] = nextLabel;
+          queue[tail++] = neighbour;
+        }
+      }
+    }
+
+    if (tail > bestSize) {
+      bestSize = tail;
+      bestLabel = nextLabel;
+    }
+    nextLabel++;
+  }
+
+  if (bestSize < width * height * MIN_PAGE_AREA) return fallback;
+
+  let topLeft = { x: 0, y: 0, score: Infinity };
+  let bottomRight = { x: 0, y: 0, score: -Infinity };
+  let topRight = { x: 0, y: 0, score: -Infinity };
+  let bottomLeft = { x: 0, y: 0, score: Infinity };
+
+  for (let index = 0; index < labels.length; index++) {
+    if (labels[index] !== bestLabel) continue;
+    const x = index % width;
+    const y = (index - x) / width;
+    const sum = x + y;
+    const diff = x - y;
+    if (sum < topLeft.score) topLeft = { x, y, score: sum };
+    if (sum > bottomRight.score) bottomRight = { x, y, score: sum };
+    if (diff > topRight.score) topRight = { x, y, score: diff };
+    if (diff < bottomLeft.score) bottomLeft = { x, y, score: diff };
+  }
+
+  const scaleX = fullWidth / width;
+  const scaleY = fullHeight / height;
+  const toFull = (p: { x: number; y: number }): Point => ({ x: p.x * scaleX, y: p.y * scaleY });
+
+  return {
+    corners: [toFull(topLeft), toFull(topRight), toFull(bottomRight), toFull(bottomLeft)],
+    detected: true,
+  };
+}
+
+/**
+ * Solve the 8-parameter homography that maps the output rectangle onto the quad
+ */
+function solveHomography(quad: Quad, width: number, height: number): number[] {
+  const targets: Array<[number, number]> = [[0, 0], [width, 0], [width, height], [0, height]];
+  const matrix: number[][] = [];
+
+  targets.forEach(([u, v], i) => {
+    const { x, y } = quad[i];
+    matrix.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    matrix.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  });
+
+  // Gaussian elimination with partial pivoting on the 8x9 augmented matrix
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+
+    const divisor = matrix[col][col] || 1e-12;
+    for (let k = col; k < 9; k++) matrix[col][k] /= divisor;
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = matrix[row][col];
+      for (let k = col; k < 9; k++) matrix[row][k] -= factor * matrix[col][k];
+    }
+  }
+
+  return matrix.map((row) => row[8]);
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Flatten the quad into an upright rectangle, cropping everything outside it
+ */
+export function warpPerspective(image: HTMLImageElement | HTMLCanvasElement, quad: Quad): HTMLCanvasElement {
+  const source = imageToCanvas(image);
+  const sourceContext = source.getContext('2d');
+  if (!sourceContext) throw new Error('Canvas is not supported on this device');
+  const sourceData = sourceContext.getImageData(0, 0, source.width, source.height).data;
+
+  const [tl, tr, br, bl] = quad;
+  let width = Math.max(distance(tl, tr), distance(bl, br));
+  let height = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, MAX_OUTPUT_SIZE / Math.max(width, height));
+  width = Math.max(1, Math.round(width * scale));
+  height = Math.max(1, Math.round(height * scale));
+
+  const [a, b, c, d, e, f, g, h] = solveHomography(quad, width, height);
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const outputContext = output.getContext('2d');
+  if (!outputContext) throw new Error('Canvas is not supported on this device');
+  const outputImage = outputContext.createImageData(width, height);
+  const out = outputImage.data;
+
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+
+  for (let v = 0; v < height; v++) {
+    for (let u = 0; u < width; u++) {
+      const w = g * u + h * v + 1;
+      const x = Math.min(Math.max((a * u + b * v + c) / w, 0), maxX);
+      const y = Math.min(Math.max((d * u + e * v + f) / w, 0), maxY);
+
+      // Bilinear sampling
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const x1 = Math.min(x0 + 1, maxX);
+      const y1 = Math.min(y0 + 1, maxY);
+      const fx = x - x0;
+      const fy = y - y0;
+
+      const i00 = (y0 * source.width + x0) * 4;
+      const i10 = (y0 * source.width + x1) * 4;
+      const i01 = (y1 * source.width + x0) * 4;
+      const i11 = (y1 * source.width + x1) * 4;
+      const o = (v * width + u) * 4;
+
+      for (let channel = 0; channel < 3; channel++) {
+        const top = sourceData[i00 + channel] * (1 - fx) + sourceData[i10 + channel] * fx;
+        const bottom = sourceData[i01 + channel] * (1 - fx) + sourceData[i11 + channel] * fx;
+        out[o + channel] = top * (1 - fy) + bottom * fy;
+      }
+      out[o + 3] = 255;
+    }
+  }
+
+  outputContext.putImageData(outputImage, 0, 0);
+  return output;
+}
+
+/**
+ * Improve a flattened page for OCR.
+ * 'enhanced' stretches contrast to lift shadows; 'bw' applies an adaptive
+ * (Bradley) threshold so uneven lighting does not wipe out faint print.
+ */
+export function enhanceDocument(canvas: HTMLCanvasElement, mode: EnhanceMode): HTMLCanvasElement {
+  if (mode === 'original') return canvas;
+
+  const context = canvas.getContext('2d');
+  if (!context) return canvas;
+  const { width, height } = canvas;
+  const imageData = context.getImageData(0, 0, width, height);
+  const data = imageData.data;
+  const pixels = width * height;
+
+  const gray = new Uint8ClampedArray(pixels);
+  for (let i = 0; i < pixels; i++) {
+    gray[i] = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  }
+
+  if (mode === 'enhanced') {
+    // Stretch the 2nd..98th percentile of brightness to the full range
+    const histogram = new Array<number>(256).fill(0);
+    gray.forEach((value) => histogram[value]++);
+    let low = 0;
+    let high = 255;
+    for (let i = 0, count = 0; i < 256; i++) {
+      count += histogram[i];
+      if (count >= pixels * 0.02) { low = i; break; }
+    }
+    for (let i = 255, count = 0; i >= 0; i--) {
+      count += histogram[i];
+      if (count >= pixels * 0.02) { high = i; break; }
+    }
+    const range = Math.max(high - low, 1);
+
+    for (let i = 0; i < data.length; i += 4) {
+      for (let channel = 0; channel < 3; channel++) {
+        data[i + channel] = ((data[i + channel] - low) * 255) / range;
+      }
+    }
+  } else {
+    const integral = new Uint32Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0;
+      for (let x = 0; x < width; x++) {
+        rowSum += gray[y * width + x];
+        integral[(y + 1) * (width + 1) + (x + 1)] = integral[y * (width + 1) + (x + 1)] + rowSum;
+      }
+    }
+
+    const radius = Math.max(4, Math.round(Math.max(width, height) / 32));
+    const sensitivity = 0.15;
+
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.max(0, y - radius);
+      const y1 = Math.min(height, y + radius + 1);
+      for (let x = 0; x < width; x++) {
+        const x0 = Math.max(0, x - radius);
+        const x1 = Math.min(width, x + radius + 1);
+        const area = (x1 - x0) * (y1 - y0);
+        const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+          - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+
+        const value = gray[y * width + x] * area < sum * (1 - sensitivity) ? 0 : 255;
+        const o = (y * width + x) * 4;
+        data[o] = value;
+        data[o + 1] = value;
+        data[o + 2] = value;
+      }
+    }
+  }
+
+  context.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+/**
+ * Encode a canvas as a JPEG file
+ */
+export function canvasToFile(canvas: HTMLCanvasElement, name: string, quality = 0.9): Promise<File> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Failed to encode image'));
+        return;
+      }
+      resolve(new File([blob], name, { type: 'image/jpeg' }));
+    }, 'image/jpeg', quality);
+  });
+}
@@ -0,0 +1,193 @@
+/**
+ * API error model
+ * Every failed backend call rejects with an ApiError subclass, so callers can
+ * branch on `kind` (or instanceof) instead of parsing messages
+ */
+
+export type ApiErrorKind =
+  | 'auth'
+  | 'validation'
+  | 'not-found'
+  | 'rate-limited'
+  | 'quota-exceeded'
+  | 'server'
+  | 'network'
+  | 'contract'
+  | 'client';
+
+interface ApiErrorOptions {
+  status: number;
+  code?: string;
+  body?: unknown;
+}
+
+export class ApiError extends Error {
+  kind: ApiErrorKind = 'client';
+  status: number; // HTTP status, 0 for network failures
+  code?: string; // Machine-readable code from the response body, when the backend sends one
+  body?: unknown;
+
+  constructor(message: string, { status, code, body }: ApiErrorOptions) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.body = body;
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  kind = 'auth' as const;
+  name = 'UnauthorizedError';
+}
+
+export class ValidationError extends ApiError {
+  kind = 'validation' as const;
+  name = 'ValidationError';
+  fieldErrors: Record<string, string>;
+
+  constructor(message: string, options: ApiErrorOptions & { fieldErrors?: Record<string, string> }) {
+    super(message, options);
+    this.fieldErrors = options.fieldErrors ?? {};
+  }
+}
+
+export class NotFoundError extends ApiError {
+  kind = 'not-found' as const;
+  name = 'NotFoundError';
+}
+
+export class RateLimitError extends ApiError {
+  kind = 'rate-limited' as const;
+  name = 'RateLimitError';
+  retryAfterMs?: number;
+
+  constructor(message: string, options: ApiErrorOptions & { retryAfterMs?: number }) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class QuotaExceededError extends ApiError {
+  kind = 'quota-exceeded' as const;
+  name = 'QuotaExceededError';
+}
+
+export class ServerError extends ApiError {
+  kind = 'server' as const;
+  name = 'ServerError';
+}
+
+export class NetworkError extends ApiError {
+  kind = 'network' as const;
+  name = 'NetworkError';
+  offline: boolean;
+
+  constructor(message = 'Network request failed') {
+    super(message, { status: 0 });
+    this.offline = typeof navigator !== 'undefined' && !navigator.onLine;
+  }
+}
+
+/**
+ * A successful response whose body does not match the schema the app expects,
+ * usually because the backend changed a field
+ */
+export class ContractError extends ApiError {
+  kind = 'contract' as const;
+  name = 'ContractError';
+  endpoint: string;
+  issues: Array<{ path: string; message: string }>;
+
+  constructor(endpoint: string, issues: Array<{ path: string; message: string }>, status = 200) {
+    super(`Unexpected response from ${endpoint}`, { status });
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * FastAPI reports validation failures as `detail: [{ loc, msg }]`;
+ * key each message by the last path segment so forms can show it inline
+ */
+function parseFieldErrors(detail: unknown): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  if (!Array.isArray(detail)) return fieldErrors;
+  for (const item of detail as Array<{ loc?: Array<string | number>; msg?: string }>) {
+    const field = item.loc?.[item.loc.length - 1];
+    if (field !== undefined && item.msg) fieldErrors[String(field)] = item.msg;
+  }
+  return fieldErrors;
+}
+
+/**
+ * Build the matching ApiError for a non-2xx response
+ */
+export function errorFromResponse(
+  status: number,
+  body: Record<string, unknown>,
+  headers?: { get(name: string): string | null },
+  statusText = ''
+): ApiError {
+  const detail = body.detail;
+  const fieldErrors = parseFieldErrors(detail);
+  const message =
+    (typeof detail === 'string' && detail) ||
+    (body.message as string) ||
+    Object.values(fieldErrors)[0] ||
+    `API request failed: ${statusText || status}`;
+  const code = body.code as string | undefined;
+  const options = { status, code, body };
+
+  if (code === 'quota_exceeded' || code === 'free_scans_exhausted' || status === 402) {
+    return new QuotaExceededError(message, options);
+  }
+  if (status === 401) return new UnauthorizedError(message, options);
+  if (status === 404) return new NotFoundError(message, options);
+  if (status === 400 || status === 422) return new ValidationError(message, { ...options, fieldErrors });
+  if (status === 429) {
+    return new RateLimitError(message, { ...options, retryAfterMs: parseRetryAfter(headers?.get('Retry-After') ?? null) });
+  }
+  if (status >= 500) return new ServerError(message, options);
+  return new ApiError(message, options);
+}
+
+/**
+ * User-facing message for a failed call, falling back to the caller's wording
+ */
+export function describeError(error: unknown, fallback: string): string {
+  if (!isApiError(error)) return fallback;
+  switch (error.kind) {
+    case 'network':
+      return (error as NetworkError).offline
+        ? "You're offline. Check your connection and try again."
+        : 'Could not reach MediGuide. Please try again.';
+    case 'auth':
+      return 'Your session has expired. Please sign in again.';
+    case 'not-found':
+      return 'This item no longer exists.';
+    case 'rate-limited':
+      return 'Too many requests. Please wait a moment and try again.';
+    case 'quota-exceeded':
+      return "You've reached your plan limit. Upgrade to Premium to continue.";
+    case 'validation':
+      return error.message || fallback;
+    case 'contract':
+      return 'MediGuide received an unexpected response. Please refresh or try again later.';
+    default:
+      return fallback;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Scan failure reasons
+ * Classifies upload and processing failures so ScanErrorScreen can offer the
+ * right recovery instead of a generic "try again"
+ */
+import { ReportStatus } from './api';
+import { isApiError } from './errors';
+
+export type ScanFailureReason =
+  | 'network'
+  | 'auth'
+  | 'unsupported-file'
+  | 'unreadable-image'
+  | 'not-lab-report'
+  | 'quota-exceeded'
+  | 'server';
+
+export interface ScanFailure {
+  reason: ScanFailureReason;
+  message?: string;
+  uploadId?: string; // Stored upload that can be retried without recapturing
+  reportId?: string;
+}
+
+// Error codes the backend sends in upload errors and failed report statuses
+const codeReasons: Record<string, ScanFailureReason> = {
+  unsupported_file: 'unsupported-file',
+  unreadable_image: 'unreadable-image',
+  ocr_failed: 'unreadable-image',
+  not_lab_report: 'not-lab-report',
+  quota_exceeded: 'quota-exceeded',
+  free_scans_exhausted: 'quota-exceeded',
+};
+
+// Older backends only send a message, so fall back to matching on it
+function reasonFromMessage(message?: string): ScanFailureReason | undefined {
+  if (!message) return undefined;
+  const text = message.toLowerCase();
+  if (/not (a|an) (lab|medical|valid) report|no (lab|test) (values|results|parameters)/.test(text)) return 'not-lab-report';
+  if (/blurr?y|unreadable|could not read|illegible|no text/.test(text)) return 'unreadable-image';
+  if (/unsupported|file type|format/.test(text)) return 'unsupported-file';
+  if (/quota|limit reached|free scans|upgrade/.test(text)) return 'quota-exceeded';
+  return undefined;
+}
+
+/**
+ * Reason for a failed upload, from its error kind and code
+ */
+export function classifyUploadError(error: unknown): ScanFailureReason {
+  if (!isApiError(error)) return 'server';
+  if (error.code && codeReasons[error.code]) return codeReasons[error.code];
+
+  switch (error.kind) {
+    case 'network':
+      return 'network';
+    case 'auth':
+      return 'auth';
+    case 'quota-exceeded':
+      return 'quota-exceeded';
+    case 'validation':
+      return reasonFromMessage(error.message) ?? 'unreadable-image';
+  }
+  if (error.status === 403) return 'auth';
+  if (error.status === 413 || error.status === 415) return 'unsupported-file';
+  return reasonFromMessage(error.message) ?? 'server';
+}
+
+/**
+ * Reason for a report the pipeline marked as failed
+ */
+export function classifyProcessingFailure(status: ReportStatus): ScanFailureReason {
+  if (status.error_code && codeReasons[status.error_code]) return codeReasons[status.error_code];
+  return reasonFromMessage(status.error_message) ?? 'server';
+}
@@ -0,0 +1,69 @@
+/**
+ * Content fingerprints for duplicate report detection
+ * Images get a perceptual difference hash (dHash), so a re-scan of the same paper
+ * still matches; PDFs get a SHA-256 of their bytes.
+ */
+import { isPdfFile, loadImage } from './scan';
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+async function sha256(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * 64-bit difference hash: shrink to 9x8 grayscale and record whether each pixel
+ * is brighter than its right-hand neighbour
+ */
+async function differenceHash(file: Blob): Promise<string> {
+  const image = await loadImage(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported on this device');
+
+  context.drawImage(image, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const gray = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  const bytes = new Uint8Array(8);
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      if (gray(x, y) > gray(x + 1, y)) {
+        const bit = y * (HASH_WIDTH - 1) + x;
+        bytes[bit >> 3] |= 1 << (7 - (bit & 7));
+      }
+    }
+  }
+  return toHex(bytes);
+}
+
+/**
+ * Fingerprint a page: "dhash:<16 hex>" for images, "sha256:<64 hex>" for PDFs
+ */
+export async function computeFingerprint(file: File): Promise<string> {
+  if (isPdfFile(file)) {
+    return `sha256:${await sha256(file)}`;
+  }
+  try {
+    return `dhash:${await differenceHash(file)}`;
+  } catch {
+    // Undecodable images can still be matched exactly
+    return `sha256:${await sha256(file)}`;
+  }
+}
+
+/**
+ * Fingerprints for every page of a report, in page order
+ */
+export function computeFingerprints(files: File[]): Promise<string[]> {
+  return Promise.all(files.map(computeFingerprint));
+}
@@ -0,0 +1,380 @@
+/**
+ * Sandbox fixtures
+ * Sample account, family and lab reports served by the sandbox backend (sandbox.ts).
+ * Values are realistic for an adult but belong to no one.
+ */
+import type { FlagLevel, ParameterExplanation, ReportParameter, Synthesis } from './schemas';
+
+export interface ReportFixture {
+  flagLevel: FlagLevel;
+  parameters: Array<Omit<ReportParameter, 'id'>>;
+  synthesis: Synthesis;
+}
+
+const explain = (what: string, meaning: string, causes?: string[], next_steps?: string[]): ParameterExplanation[] => [
+  { what, meaning, causes, next_steps },
+];
+
+/**
+ * One analysed result per report type; uploads of other types reuse the CBC
+ */
+export const REPORT_FIXTURES: Record<string, ReportFixture> = {
+  CBC: {
+    flagLevel: 'green',
+    parameters: [
+      {
+        name: 'Hemoglobin', value: '13.8', unit: 'g/dL', normal_range: '13.0 - 17.0', flag: 'normal',
+        report_explanations: explain(
+          'The protein in red blood cells that carries oxygen around the body.',
+          'Your level is within the normal range, so your blood is carrying oxygen well.'
+        ),
+      },
+      {
+        name: 'WBC Count', value: '7.2', unit: '10^3/µL', normal_range: '4.0 - 11.0', flag: 'normal',
+        report_explanations: explain(
+          'White blood cells fight infection.',
+          'A normal count suggests no active infection or immune problem.'
+        ),
+      },
+      {
+        name: 'Platelet Count', value: '250', unit: '10^3/µL', normal_range: '150 - 410', flag: 'normal',
+        report_explanations: explain(
+          'Platelets help your blood clot after an injury.',
+          'Your platelets are in the healthy range.'
+        ),
+      },
+      {
+        name: 'RBC Count', value: '4.9', unit: '10^6/µL', normal_range: '4.5 - 5.5', flag: 'normal',
+        report_explanations: explain(
+          'The number of red blood cells in a sample of blood.',
+          'Your red cell count is normal.'
+        ),
+      },
+      {
+        name: 'Hematocrit', value: '42', unit: '%', normal_range: '40 - 50', flag: 'normal',
+        report_explanations: explain(
+          'The share of your blood made up of red blood cells.',
+          'Your hematocrit is normal and matches your hemoglobin.'
+        ),
+      },
+      {
+        name: 'MCV', value: '86', unit: 'fL', normal_range: '83 - 101', flag: 'normal',
+        report_explanations: explain(
+          'The average size of your red blood cells.',
+          'Normal-sized red cells make iron or B12 deficiency unlikely.'
+        ),
+      },
+    ],
+    synthesis: {
+      status: 'completed',
+      status_summary: 'Your blood count is healthy. Every value is within its normal range.',
+      key_trends: ['Hemoglobin has stayed steady since your last test'],
+      doctor_precis: 'CBC within normal limits: Hb 13.8 g/dL, WBC 7.2, platelets 250. No action needed.',
+      suggested_questions: ['How often should I repeat a CBC?'],
+      wellness_recommendations: [
+        { title: 'Keep up iron-rich foods', description: 'Leafy greens, lentils and legumes help keep hemoglobin where it is.' },
+      ],
+    },
+  },
+  'Lipid Panel': {
+    flagLevel: 'yellow',
+    parameters: [
+      {
+        name: 'Total Cholesterol', value: '212', unit: 'mg/dL', normal_range: '< 200', flag: 'high',
+        report_explanations: explain(
+          'All the cholesterol in your blood, both "good" and "bad".',
+          'Your total cholesterol is slightly above the desirable level.',
+          ['Diet high in saturated fat', 'Low physical activity', 'Family history'],
+          ['Cut down on fried and processed foods', 'Recheck in 3 months']
+        ),
+      },
+      {
+        name: 'LDL Cholesterol', value: '138', unit: 'mg/dL', normal_range: '< 100', flag: 'high',
+        report_explanations: explain(
+          'The "bad" cholesterol that can build up in artery walls.',
+          'Your LDL is above the optimal level, which raises long-term heart risk.',
+          ['Saturated and trans fats', 'Excess weight', 'Genetics'],
+          ['Add more fibre such as oats and beans', 'Discuss with your doctor if it stays high']
+        ),
+      },
+      {
+        name: 'HDL Cholesterol', value: '46', unit: 'mg/dL', normal_range: '> 40', flag: 'normal',
+        report_explanations: explain(
+          'The "good" cholesterol that carries cholesterol away from arteries.',
+          'Your HDL is in the healthy range.'
+        ),
+      },
+      {
+        name: 'Triglycerides', value: '165', unit: 'mg/dL', normal_range: '< 150', flag: 'high',
+        report_explanations: explain(
+          'A type of fat in the blood that stores extra energy from food.',
+          'Your triglycerides are mildly raised.',
+          ['Sugary drinks and refined carbohydrates', 'Alcohol'],
+          ['Limit sweets and alcohol', 'Aim for 150 minutes of exercise a week']
+        ),
+      },
+    ],
+    synthesis: {
+      status: 'completed',
+      status_summary: 'Your cholesterol is mildly raised. LDL and triglycerides are above the recommended levels.',
+      key_trends: ['LDL is up 12 mg/dL since your previous lipid panel'],
+      doctor_precis: 'Borderline dyslipidemia: TC 212, LDL 138, HDL 46, TG 165 mg/dL. Lifestyle changes advised; repeat in 3 months.',
+      suggested_questions: ['Do I need medication for my cholesterol?', 'Which foods lower LDL the most?'],
+      wellness_recommendations: [
+        { title: 'Swap saturated fats', description: 'Cook with mustard or olive oil instead of ghee or butter.' },
+        { title: 'Move daily', description: 'A brisk 30-minute walk most days helps lower triglycerides.' },
+      ],
+    },
+  },
+  HbA1c: {
+    flagLevel: 'red',
+    parameters: [
+      {
+        name: 'HbA1c', value: '7.8', unit: '%', normal_range: '4.0 - 5.6', flag: 'high',
+        report_explanations: explain(
+          'Your average blood sugar over the last 2-3 months.',
+          'This level is in the diabetes range and needs medical attention.',
+          ['Insulin resistance', 'High-sugar diet', 'Family history of diabetes'],
+          ['See your doctor soon to discuss treatment', 'Monitor your blood sugar at home']
+        ),
+      },
+      {
+        name: 'Estimated Average Glucose', value: '177', unit: 'mg/dL', normal_range: '< 117', flag: 'high',
+        report_explanations: explain(
+          'Your HbA1c converted into an everyday blood sugar reading.',
+          'Your average blood sugar has been higher than it should be.'
+        ),
+      },
+      {
+        name: 'Fasting Blood Glucose', value: '148', unit: 'mg/dL', normal_range: '70 - 100', flag: 'high',
+        report_explanations: explain(
+          'Blood sugar measured after at least 8 hours without food.',
+          'Your fasting sugar is high, which fits with the raised HbA1c.',
+          ['Diabetes', 'Late-night meals'],
+          ['Avoid sugary drinks', 'Discuss a treatment plan with your doctor']
+        ),
+      },
+    ],
+    synthesis: {
+      status: 'completed',
+      status_summary: 'Your blood sugar has been high over the past few months and needs a doctor’s attention.',
+      key_trends: ['HbA1c has risen from 6.9% to 7.8% in six months'],
+      doctor_precis: 'HbA1c 7.8%, eAG 177 mg/dL, FBG 148 mg/dL, consistent with uncontrolled type 2 diabetes. Review therapy.',
+      suggested_questions: ['Do I need to start medication?', 'What HbA1c should I aim for?'],
+      wellness_recommendations: [
+        { title: 'Watch portion sizes', description: 'Fill half your plate with vegetables and keep rice or roti to a quarter.' },
+        { title: 'Walk after meals', description: 'A 10-15 minute walk after eating helps lower blood sugar spikes.' },
+      ],
+    },
+  },
+  Thyroid: {
+    flagLevel: 'yellow',
+    parameters: [
+      {
+        name: 'TSH', value: '5.9', unit: 'µIU/mL', normal_range: '0.4 - 4.0', flag: 'high',
+        report_explanations: explain(
+          'The hormone your brain uses to tell the thyroid to work harder.',
+          'A high TSH can mean your thyroid is slightly underactive.',
+          ['Early hypothyroidism', 'Recent illness', 'Iodine imbalance'],
+          ['Repeat the test in 6-8 weeks', 'Mention tiredness or weight changes to your doctor']
+        ),
+      },
+      {
+        name: 'Free T4', value: '1.1', unit: 'ng/dL', normal_range: '0.8 - 1.8', flag: 'normal',
+        report_explanations: explain(
+          'The main hormone made by your thyroid.',
+          'Your T4 is still normal, so any thyroid slowdown is mild.'
+        ),
+      },
+      {
+        name: 'Free T3', value: '3.0', unit: 'pg/mL', normal_range: '2.3 - 4.2', flag: 'normal',
+        report_explanations: explain(
+          'The active form of thyroid hormone.',
+          'Your T3 is within the normal range.'
+        ),
+      },
+    ],
+    synthesis: {
+      status: 'completed',
+      status_summary: 'Your TSH is mildly high while your thyroid hormones are normal, suggesting a slightly underactive thyroid.',
+      key_trends: ['First thyroid panel on record'],
+      doctor_precis: 'TSH 5.9 µIU/mL with normal FT4 1.1 and FT3 3.0: subclinical hypothyroidism. Repeat TFT in 6-8 weeks.',
+      suggested_questions: ['Does mild hypothyroidism need treatment?'],
+      wellness_recommendations: [
+        { title: 'Use iodised salt', description: 'Iodine helps your thyroid make its hormones.' },
+      ],
+    },
+  },
+  LFT: {
+    flagLevel: 'green',
+    parameters: [
+      {
+        name: 'ALT (SGPT)', value: '28', unit: 'U/L', normal_range: '7 - 56', flag: 'normal',
+        report_explanations: explain(
+          'An enzyme that leaks into the blood when liver cells are irritated.',
+          'Your ALT is normal, so there is no sign of liver stress.'
+        ),
+      },
+      {
+        name: 'AST (SGOT)', value: '24', unit: 'U/L', normal_range: '10 - 40', flag: 'normal',
+        report_explanations: explain(
+          'An enzyme found in the liver and muscles.',
+          'Your AST is normal.'
+        ),
+      },
+      {
+        name: 'Alkaline Phosphatase', value: '85', unit: 'U/L', normal_range: '44 - 147', flag: 'normal',
+        report_explanations: explain(
+          'An enzyme from the liver, bile ducts and bones.',
+          'A normal level suggests your bile ducts are working well.'
+        ),
+      },
+      {
+        name: 'Total Bilirubin', value: '0.8', unit: 'mg/dL', normal_range: '0.1 - 1.2', flag: 'normal',
+        report_explanations: explain(
+          'A yellow pigment cleared by the liver.',
+          'Your liver is clearing bilirubin normally.'
+        ),
+      },
+      {
+        name: 'Albumin', value: '4.3', unit: 'g/dL', normal_range: '3.5 - 5.0', flag: 'normal',
+        report_explanations: explain(
+          'A protein made by the liver that keeps fluid in your blood vessels.',
+          'Your albumin is healthy.'
+        ),
+      },
+    ],
+    synthesis: {
+      status: 'completed',
+      status_summary: 'Your liver tests are all normal.',
+      key_trends: ['Liver enzymes have stayed stable'],
+      doctor_precis: 'LFT within normal limits: ALT 28, AST 24, ALP 85 U/L, bilirubin 0.8 mg/dL, albumin 4.3 g/dL.',
+      suggested_questions: ['Is my alcohol intake affecting my liver?'],
+      wellness_recommendations: [
+        { title: 'Stay hydrated', description: 'Plenty of water and limited alcohol keep your liver healthy.' },
+      ],
+    },
+  },
+};
+
+export const fixtureFor = (type: string): ReportFixture => REPORT_FIXTURES[type] ?? REPORT_FIXTURES.CBC;
+
+export const SANDBOX_USER_ID = 'sandbox-user';
+export const SANDBOX_EMAIL = 'demo@mediguide.app';
+
+// Row in the Supabase `profiles` table
+export const SANDBOX_PROFILE = {
+  id: SANDBOX_USER_ID,
+  full_name: 'Asha Verma',
+  dob: '1988-04-12',
+  phone_number: '+91 98765 43210',
+  gender: 'female',
+  blood_group: 'B+',
+  allergies: 'Penicillin',
+  health_conditions: '',
+  em_contact_name: 'Rahul Verma',
+  em_relationship: 'Spouse',
+  em_phone: '+91 98765 43211',
+  profile_image_url: null,
+};
+
+export interface SeedReport {
+  userId: string;
+  type: string;
+  labName: string;
+  daysAgo: number;
+  uploadedToAbdm: boolean;
+  // Left unsummarised so generating a synthesis can be tried
+  withoutSynthesis?: boolean;
+  // Earlier results that differ from the fixture, so trends have history to show
+  results?: Record<string, Pick<ReportParameter, 'value' | 'flag'> & Partial<Pick<ReportParameter, 'unit' | 'normal_range'>>>;
+  // Age and sex as printed on the report, extracted as METADATA_AGE and METADATA_SEX
+  patient?: { age: string; sex: string };
+}
+
+export const SANDBOX_FAMILY_MEMBER_ID = 'sandbox-member-mother';
+
+export const SEED_REPORTS: SeedReport[] = [
+  { userId: SANDBOX_USER_ID, type: 'Lipid Panel', labName: 'CityLab Diagnostics', daysAgo: 4, uploadedToAbdm: true },
+  { userId: SANDBOX_USER_ID, type: 'CBC', labName: 'Apollo Labs', daysAgo: 21, uploadedToAbdm: true },
+  { userId: SANDBOX_USER_ID, type: 'HbA1c', labName: 'HealthFirst Labs', daysAgo: 45, uploadedToAbdm: false },
+  { userId: SANDBOX_USER_ID, type: 'LFT', labName: 'CityLab Diagnostics', daysAgo: 80, uploadedToAbdm: true },
+  { userId: SANDBOX_USER_ID, type: 'Thyroid', labName: 'MedPath Labs', daysAgo: 140, uploadedToAbdm: false, withoutSynthesis: true },
+  {
+    userId: SANDBOX_USER_ID, type: 'HbA1c', labName: 'HealthFirst Labs', daysAgo: 170, uploadedToAbdm: false,
+    results: {
+      'HbA1c': { value: '7.2', flag: 'high' },
+      'Estimated Average Glucose': { value: '160', flag: 'high' },
+      'Fasting Blood Glucose': { value: '134', flag: 'high' },
+    },
+  },
+  {
+    userId: SANDBOX_USER_ID, type: 'Lipid Panel', labName: 'CityLab Diagnostics', daysAgo: 190, uploadedToAbdm: true,
+    results: {
+      'Total Cholesterol': { value: '228', flag: 'high' },
+      'LDL Cholesterol': { value: '152', flag: 'high' },
+      'HDL Cholesterol': { value: '42', flag: 'normal' },
+      'Triglycerides': { value: '181', flag: 'high' },
+    },
+  },
+  {
+    userId: SANDBOX_USER_ID, type: 'CBC', labName: 'Apollo Labs', daysAgo: 230, uploadedToAbdm: false,
+    results: {
+      'Hemoglobin': { value: '12.7', flag: 'low' },
+      'Hematocrit': { value: '39', flag: 'low' },
+    },
+  },
+  {
+    userId: SANDBOX_USER_ID, type: 'Thyroid', labName: 'MedPath Labs', daysAgo: 300, uploadedToAbdm: false,
+    results: { 'TSH': { value: '4.6', flag: 'high' } },
+  },
+  {
+    userId: SANDBOX_USER_ID, type: 'HbA1c', labName: 'HealthFirst Labs', daysAgo: 330, uploadedToAbdm: false,
+    results: {
+      // This lab reports glucose in SI units
+      'HbA1c': { value: '6.6', flag: 'high' },
+      'Estimated Average Glucose': { value: '7.9', unit: 'mmol/L', normal_range: '< 6.5', flag: 'high' },
+      'Fasting Blood Glucose': { value: '6.7', unit: 'mmol/L', normal_range: '3.9 - 5.6', flag: 'high' },
+    },
+  },
+  {
+    userId: SANDBOX_USER_ID, type: 'Lipid Panel', labName: 'CityLab Diagnostics', daysAgo: 380, uploadedToAbdm: false,
+    results: {
+      'Total Cholesterol': { value: '236', flag: 'high' },
+      'LDL Cholesterol': { value: '161', flag: 'high' },
+      'HDL Cholesterol': { value: '40', flag: 'normal' },
+      'Triglycerides': { value: '192', flag: 'high' },
+    },
+  },
+  {
+    userId: SANDBOX_FAMILY_MEMBER_ID, type: 'HbA1c', labName: 'Apollo Labs', daysAgo: 9, uploadedToAbdm: false,
+    patient: { age: '62 Y', sex: 'F' },
+  },
+  {
+    userId: SANDBOX_FAMILY_MEMBER_ID, type: 'Lipid Panel', labName: 'Apollo Labs', daysAgo: 60, uploadedToAbdm: false,
+    patient: { age: '62 Y', sex: 'F' },
+  },
+];
+
+export const SEED_FAMILY_MEMBERS = [
+  {
+    connection_id: 'sandbox-connection-mother',
+    user_id: SANDBOX_FAMILY_MEMBER_ID,
+    display_name: 'Mom',
+    profile_name: 'Sunita Verma',
+    phone: '+91 98765 43212',
+    status: 'critical' as const,
+    connection_status: 'connected' as const,
+    daysAgo: 200,
+  },
+  {
+    connection_id: 'sandbox-connection-brother',
+    user_id: 'sandbox-member-brother',
+    display_name: null,
+    profile_name: 'Arjun Verma',
+    phone: '+91 98765 43213',
+    status: 'pending' as const,
+    connection_status: 'pending-received' as const,
+    daysAgo: 1,
+  },
+];
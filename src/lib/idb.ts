@@ -0,0 +1,78 @@
+/**
+ * Minimal IndexedDB wrapper
+ * Promise-based access to the app's local object stores
+ */
+
+const DB_NAME = 'mediguide';
+const DB_VERSION = 3;
+
+// Every object store the app uses; all are keyed by their record's `id`
+// The service worker opens the same database (public/sw.js), so keep names in step
+export type StoreName = 'uploads' | 'cache' | 'outbox' | 'keys' | 'session';
+const STORES: StoreName[] = ['uploads', 'cache', 'outbox', 'keys', 'session'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach((store) => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        });
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = run(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function idbGet<T>(store: StoreName, id: string): Promise<T | undefined> {
+  return withStore(store, 'readonly', (s) => s.get(id));
+}
+
+export function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return withStore(store, 'readonly', (s) => s.getAll());
+}
+
+export async function idbPut<T>(store: StoreName, value: T): Promise<void> {
+  await withStore(store, 'readwrite', (s) => s.put(value));
+}
+
+export async function idbDelete(store: StoreName, id: string): Promise<void> {
+  await withStore(store, 'readwrite', (s) => s.delete(id));
+}
+
+export async function idbClear(store: StoreName): Promise<void> {
+  await withStore(store, 'readwrite', (s) => s.clear());
+}
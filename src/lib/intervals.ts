@@ -0,0 +1,214 @@
+/**
+ * Reference intervals by age and sex
+ * Typical healthy ranges for analytes whose normal values depend on who was
+ * tested, so a result can be read against the patient rather than the single
+ * adult range most labs print. Values are in the catalog unit (biomarkers.ts);
+ * they are for orientation and do not replace the lab's own intervals.
+ */
+import type { ParameterFlag, ReportParameter } from './api';
+import type { Analyte } from './biomarkers';
+import type { ReferenceRange } from './ranges';
+import { parseReadingValue } from './trends';
+import { toUnitSystem, unitKey, UnitSystem } from './units';
+
+export type Sex = 'male' | 'female';
+
+export interface Patient {
+  age?: number; // years, fractional for infants
+  sex?: Sex;
+}
+
+interface IntervalBand extends ReferenceRange {
+  sex?: Sex;
+  minAge?: number; // inclusive
+  maxAge?: number; // exclusive
+}
+
+export interface Interpretation {
+  flag: ParameterFlag;
+  range: ReferenceRange;
+  group: string; // who the range is for, e.g. "women aged 18+"
+}
+
+const ADULT = 18;
+
+const adult = (sex: Sex, low?: number, high?: number): IntervalBand => ({ sex, minAge: ADULT, low, high });
+
+// Keyed by catalog analyte id; the first band matching the patient applies
+const INTERVALS: Record<string, IntervalBand[]> = {
+  'hemoglobin': [
+    { minAge: 0.5, maxAge: 5, low: 11, high: 14 },
+    { minAge: 5, maxAge: 12, low: 11.5, high: 15.5 },
+    { sex: 'female', minAge: 12, maxAge: ADULT, low: 12, high: 16 },
+    { sex: 'male', minAge: 12, maxAge: ADULT, low: 13, high: 16 },
+    adult('female', 12, 15.5),
+    adult('male', 13.5, 17.5),
+  ],
+  'hematocrit': [
+    { minAge: 1, maxAge: 12, low: 34, high: 42 },
+    adult('female', 36, 46),
+    adult('male', 40, 52),
+  ],
+  'rbc': [
+    adult('female', 4, 5.2),
+    adult('male', 4.5, 5.9),
+  ],
+  'esr': [
+    { sex: 'female', minAge: ADULT, maxAge: 50, high: 20 },
+    { sex: 'male', minAge: ADULT, maxAge: 50, high: 15 },
+    { sex: 'female', minAge: 50, high: 30 },
+    { sex: 'male', minAge: 50, high: 20 },
+  ],
+  'hdl': [
+    adult('female', 50),
+    adult('male', 40),
+  ],
+  // Bone growth raises alkaline phosphatase well above adult levels until the late teens
+  'alp': [
+    { minAge: 1, maxAge: 10, low: 145, high: 420 },
+    { minAge: 10, maxAge: 14, low: 130, high: 560 },
+    { sex: 'female', minAge: 14, maxAge: ADULT, low: 50, high: 260 },
+    { sex: 'male', minAge: 14, maxAge: ADULT, low: 75, high: 400 },
+    { minAge: ADULT, low: 40, high: 130 },
+  ],
+  'alt': [
+    adult('female', undefined, 33),
+    adult('male', undefined, 41),
+  ],
+  'ggt': [
+    adult('female', 6, 42),
+    adult('male', 10, 71),
+  ],
+  'creatinine': [
+    { minAge: 1, maxAge: 12, low: 0.3, high: 0.7 },
+    { minAge: 12, maxAge: ADULT, low: 0.5, high: 1 },
+    adult('female', 0.5, 1.1),
+    adult('male', 0.7, 1.3),
+  ],
+  'uric-acid': [
+    adult('female', 2.4, 6),
+    adult('male', 3.4, 7),
+  ],
+  // The upper limit rises with age; a TSH that is high at 40 can be usual at 80
+  'tsh': [
+    { minAge: 1, maxAge: ADULT, low: 0.7, high: 5.7 },
+    { minAge: ADULT, maxAge: 70, low: 0.4, high: 4 },
+    { minAge: 70, low: 0.4, high: 6 },
+  ],
+};
+
+/**
+ * Age in years from a printed age such as "45 Y", "45 Yrs", "8 Y 3 M",
+ * "6 months" or "10 days"
+ */
+export function parseAge(text?: string | null): number | undefined {
+  if (!text) return undefined;
+  const part = (pattern: RegExp) => Number(text.match(pattern)?.[1] ?? 0);
+  const years = part(/(\d+(?:\.\d+)?)\s*(?:y|yr|yrs|years?)\b/i);
+  const months = part(/(\d+)\s*(?:m|mo|mos|months?)\b/i);
+  const days = part(/(\d+)\s*(?:d|days?)\b/i);
+  if (years || months || days) return years + months / 12 + days / 365;
+
+  // A bare number is in years
+  const bare = text.match(/^\s*(\d+(?:\.\d+)?)\s*$/);
+  return bare ? Number(bare[1]) : undefined;
+}
+
+/**
+ * Sex from a printed or profile value ("M", "Male", "F", "female");
+ * undefined for anything else, including "Prefer not to say"
+ */
+export function parseSex(text?: string | null): Sex | undefined {
+  const value = text?.trim().toLowerCase();
+  if (!value) return undefined;
+  if (/^(m|male|man|boy)\b/.test(value)) return 'male';
+  if (/^(f|female|woman|girl)\b/.test(value)) return 'female';
+  return undefined;
+}
+
+/**
+ * Age in whole years on a given date, e.g. a report's collection date
+ */
+export function ageOn(dateOfBirth: string, date: string): number | undefined {
+  const born = new Date(dateOfBirth);
+  const on = new Date(date);
+  if (isNaN(born.getTime()) || isNaN(on.getTime()) || on < born) return undefined;
+
+  const age = on.getFullYear() - born.getFullYear();
+  const birthdayPassed = on.getMonth() > born.getMonth()
+    || (on.getMonth() === born.getMonth() && on.getDate() >= born.getDate());
+  return birthdayPassed ? age : age - 1;
+}
+
+/**
+ * Who a report is about: the age and sex the lab printed, falling back to
+ * the user's profile (only pass one for the user's own reports)
+ */
+export function patientFor(
+  parameters: ReportParameter[],
+  reportDate: string,
+  profile?: { dateOfBirth: string; gender: string } | null,
+): Patient {
+  const printed = (name: string) => parameters.find(parameter => parameter.name === name)?.value;
+  return {
+    age: parseAge(printed('METADATA_AGE')) ?? (profile?.dateOfBirth ? ageOn(profile.dateOfBirth, reportDate) : undefined),
+    sex: parseSex(printed('METADATA_SEX')) ?? parseSex(profile?.gender),
+  };
+}
+
+function describeGroup({ sex, minAge, maxAge }: IntervalBand): string {
+  if (minAge === undefined && maxAge === undefined) {
+    return `${sex ? (sex === 'female' ? 'women' : 'men') : 'people'} of any age`;
+  }
+  const grownUp = (minAge ?? ADULT) >= ADULT;
+  const who = sex
+    ? (grownUp ? (sex === 'female' ? 'women' : 'men') : (sex === 'female' ? 'girls' : 'boys'))
+    : (grownUp ? 'adults' : 'children');
+  if (minAge === undefined) return who;
+  return maxAge === undefined ? `${who} aged ${minAge}+` : `${who} aged ${minAge}–${maxAge}`;
+}
+
+/**
+ * Read a result against the interval for the patient's age and sex. Null
+ * when the analyte has no such intervals, the patient does not match a band
+ * (e.g. the sex is unknown and the ranges differ by sex, or the age is unknown
+ * and they differ by age), or the result is not a number in a unit the
+ * interval can be compared with.
+ */
+export function interpretForPatient(
+  analyte: Analyte | null,
+  measurement: { value: string; unit?: string | null },
+  patient: Patient,
+): Interpretation | null {
+  const bands = analyte ? INTERVALS[analyte.id] : undefined;
+  if (!bands) return null;
+
+  // Without an age only bands for every age apply; guessing one could contradict the lab for a child
+  const { age } = patient;
+  const band = bands.find(candidate =>
+    (!candidate.sex || candidate.sex === patient.sex)
+    && (candidate.minAge === undefined || (age !== undefined && age >= candidate.minAge))
+    && (candidate.maxAge === undefined || (age !== undefined && age < candidate.maxAge)));
+  if (!band) return null;
+
+  // Bands are in the catalog unit, which is the conventional one where a conversion exists
+  const shown = toUnitSystem(analyte, { value: measurement.value, unit: measurement.unit ?? undefined }, 'conventional');
+  const value = parseReadingValue(shown.value);
+  if (value === null || !shown.unit || unitKey(shown.unit) !== unitKey(analyte.unit)) return null;
+
+  const { low, high } = band;
+  const flag: ParameterFlag = high !== undefined && value > high ? 'high' : low !== undefined && value < low ? 'low' : 'normal';
+  return { flag, range: { low, high }, group: describeGroup(band) };
+}
+
+/**
+ * An interpretation's range as text in the preferred units, e.g. "12–15.5 g/dL"
+ */
+export function intervalLabel(analyte: Analyte, { range }: Interpretation, system: UnitSystem): string {
+  const text = range.low !== undefined && range.high !== undefined
+    ? `${range.low}–${range.high}`
+    : range.high !== undefined ? `≤ ${range.high}` : `≥ ${range.low}`;
+  // The range stands in for the value so the conversion rounds it like one
+  const shown = toUnitSystem(analyte, { value: text, unit: analyte.unit }, system);
+  return `${shown.value} ${shown.unit}`;
+}
@@ -0,0 +1,173 @@
+/**
+ * Leveled logger
+ * Silent in production builds unless diagnostics mode is on. Everything that
+ * reaches the console or the diagnostics timeline is redacted first, so tokens,
+ * contact details and report contents never leave the device in a log.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+const LEVEL_KEY = 'mediguide_log_level';
+const DIAGNOSTICS_KEY = 'mediguide_diagnostics';
+const MAX_TIMELINE_ENTRIES = 500;
+
+const REDACTED = '[redacted]';
+
+// Credentials are dropped whatever they are nested under
+const SECRET_KEYS = /token|authorization|password|secret|api[_-]?key|cookie|session/i;
+
+// Personal details and report contents
+const PERSONAL_KEYS = new Set([
+  'email', 'phone', 'phone_number', 'phonenumber', 'mobile',
+  'name', 'first_name', 'firstname', 'last_name', 'lastname', 'full_name', 'fullname',
+  'dob', 'date_of_birth', 'dateofbirth', 'address', 'allergies', 'conditions', 'emergency_contact', 'emergencycontact',
+  'value', 'values', 'normal_range', 'parameters', 'results', 'report_explanations', 'explanation',
+  'status_summary', 'key_trends', 'doctor_precis', 'summary', 'synthesis',
+  'text', 'raw_text', 'extracted_text', 'content', 'question', 'answer', 'response', 'messages',
+]);
+
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const BEARER_PATTERN = /Bearer\s+[\w.~+/-]+=*/gi;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+// Lookarounds keep UUID segments and timestamps from being mistaken for numbers
+const PHONE_PATTERN = /(?<![\w-])(\+\d{1,3}[\s-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}(?![\w-])/g;
+
+/**
+ * Mask credentials, emails and phone numbers inside free text
+ */
+export function redactText(text: string): string {
+  return text
+    .replace(JWT_PATTERN, REDACTED)
+    .replace(BEARER_PATTERN, `Bearer ${REDACTED}`)
+    .replace(EMAIL_PATTERN, REDACTED)
+    .replace(PHONE_PATTERN, REDACTED);
+}
+
+/**
+ * Copy of a value that is safe to log
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactText(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth > 5) return '[truncated]';
+
+  if (value instanceof Error) {
+    const { kind, status, code } = value as Error & { kind?: string; status?: number; code?: string };
+    return { name: value.name, message: redactText(value.message), kind, status, code };
+  }
+  if (value instanceof Blob) return `[${value.type || 'blob'}, ${value.size} bytes]`;
+  if (value instanceof FormData) return '[form data]';
+  if (value instanceof Headers) return redact(Object.fromEntries(value.entries()), depth);
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+      key,
+      SECRET_KEYS.test(key) || PERSONAL_KEYS.has(key.toLowerCase()) ? REDACTED : redact(item, depth + 1),
+    ])
+  );
+}
+
+export interface TimelineEntry {
+  time: string;
+  level: Exclude<LogLevel, 'silent'>;
+  message: string;
+  data?: unknown;
+}
+
+export interface RequestEvent {
+  method: string;
+  endpoint: string;
+  status: number; // 0 when the request never got a response
+  durationMs: number;
+  attempt?: number;
+  errorKind?: string;
+}
+
+let timeline: TimelineEntry[] = [];
+let diagnosticsEnabled = localStorage.getItem(DIAGNOSTICS_KEY) === 'true';
+
+function configuredLevel(): LogLevel {
+  if (diagnosticsEnabled) return 'debug';
+  const saved = localStorage.getItem(LEVEL_KEY) as LogLevel | null;
+  if (saved && saved in LEVEL_ORDER) return saved;
+  return import.meta.env.DEV ? 'debug' : 'silent';
+}
+
+let level = configuredLevel();
+
+function record(entry: TimelineEntry) {
+  timeline.push(entry);
+  if (timeline.length > MAX_TIMELINE_ENTRIES) {
+    timeline = timeline.slice(-MAX_TIMELINE_ENTRIES);
+  }
+}
+
+function log(entryLevel: TimelineEntry['level'], message: string, data: unknown[]) {
+  if (LEVEL_ORDER[entryLevel] < LEVEL_ORDER[level]) return;
+
+  const safeMessage = redactText(message);
+  const safeData = data.map(item => redact(item));
+  console[entryLevel](safeMessage, ...safeData);
+
+  if (diagnosticsEnabled) {
+    record({
+      time: new Date().toISOString(),
+      level: entryLevel,
+      message: safeMessage,
+      data: safeData.length === 0 ? undefined : safeData.length === 1 ? safeData[0] : safeData,
+    });
+  }
+}
+
+// Query strings can carry search terms, so only the path is kept
+const endpointPath = (endpoint: string) => endpoint.split('?')[0];
+
+export const logger = {
+  debug: (message: string, ...data: unknown[]) => log('debug', message, data),
+  info: (message: string, ...data: unknown[]) => log('info', message, data),
+  warn: (message: string, ...data: unknown[]) => log('warn', message, data),
+  error: (message: string, ...data: unknown[]) => log('error', message, data),
+
+  /**
+   * One finished backend request, for the diagnostics timeline
+   */
+  request(event: RequestEvent) {
+    const safeEvent = { ...event, endpoint: endpointPath(event.endpoint) };
+    const failed = event.status === 0 || event.status >= 400;
+    log(failed ? 'warn' : 'debug', `${safeEvent.method} ${safeEvent.endpoint} → ${event.status || 'no response'}`, [safeEvent]);
+  },
+
+  setLevel(next: LogLevel) {
+    localStorage.setItem(LEVEL_KEY, next);
+    level = configuredLevel();
+  },
+};
+
+export const isDiagnosticsEnabled = () => diagnosticsEnabled;
+
+/**
+ * Diagnostics mode records a redacted timeline at debug level until turned off
+ */
+export function setDiagnosticsEnabled(enabled: boolean) {
+  diagnosticsEnabled = enabled;
+  localStorage.setItem(DIAGNOSTICS_KEY, String(enabled));
+  if (!enabled) timeline = [];
+  level = configuredLevel();
+}
+
+/**
+ * Redacted timeline as a JSON file users can attach to a support request
+ */
+export function exportDiagnostics(): Blob {
+  const report = {
+    exportedAt: new Date().toISOString(),
+    mode: import.meta.env.MODE,
+    userAgent: navigator.userAgent,
+    online: navigator.onLine,
+    entries: timeline,
+  };
+  return new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+}
@@ -0,0 +1,255 @@
+/**
+ * Offline cache
+ * Keeps the last fetched copy of reports, parameters, explanations, synthesis
+ * and report images in IndexedDB so screens can render without the backend,
+ * and everything is wiped on sign out. Pending uploads (uploads.ts) are kept
+ * for their owner until another account signs in.
+ *
+ * Threat model: records are AES-GCM encrypted under a per-account key whose
+ * secret lives in the same database, because the cache must open on a cold
+ * start with no connection and so cannot depend on anything the server holds.
+ * The encryption keeps records unreadable once sign out deletes that secret
+ * (even records a failed clear left behind) and keeps one account from
+ * reading another's records. It does not protect against anyone who can run
+ * code in, or copy, the browser profile while an account is signed in; the
+ * Supabase session stored alongside would give them the same data anyway.
+ */
+import { supabase } from './supabase';
+import { idbGet, idbGetAll, idbPut, idbDelete, idbClear, StoreName } from './idb';
+import { isApiError } from './errors';
+import { getStorageUrl } from './utils';
+import { logger } from './logger';
+
+type SecureStore = Extract<StoreName, 'cache' | 'outbox'>;
+
+interface EncryptedRecord {
+  id: string; // `${userId}:${key}`
+  iv: Uint8Array;
+  data: ArrayBuffer;
+  type?: string; // MIME type of cached images; JSON records have none
+  savedAt: string;
+}
+
+interface KeyRecord {
+  id: string; // User id
+  secret: CryptoKey;
+}
+
+const OWNER_KEY = 'mediguide_cache_owner';
+const LAST_SYNCED_KEY = 'mediguide_last_synced';
+const KEY_INFO = new TextEncoder().encode('mediguide-offline-cache');
+
+const keys = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Account whose cache is readable, and who owns pending uploads. An expired
+ * session cannot be refreshed while offline, so the last signed-in account is
+ * remembered until sign out.
+ */
+export async function currentAccountId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const userId = session?.user.id;
+  if (userId) {
+    localStorage.setItem(OWNER_KEY, userId);
+    return userId;
+  }
+  return localStorage.getItem(OWNER_KEY);
+}
+
+/**
+ * AES-GCM key for an account: HKDF over a random per-account secret, salted
+ * with the user id. The secret is non-extractable, so its raw bytes never
+ * leave the browser's key store, and deleting it on sign out makes anything
+ * left behind unreadable. See the threat model above for what this does not cover.
+ */
+async function deriveKey(userId: string): Promise<CryptoKey> {
+  let record = await idbGet<KeyRecord>('keys', userId);
+  if (!record) {
+    const secret = await crypto.subtle.importKey(
+      'raw',
+      crypto.getRandomValues(new Uint8Array(32)),
+      'HKDF',
+      false,
+      ['deriveKey']
+    );
+    record = { id: userId, secret };
+    await idbPut('keys', record);
+  }
+
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new TextEncoder().encode(userId), info: KEY_INFO },
+    record.secret,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function accountKey(): Promise<{ userId: string; key: CryptoKey } | null> {
+  const userId = await currentAccountId();
+  if (!userId) return null;
+  if (!keys.has(userId)) {
+    const key = deriveKey(userId);
+    key.catch(() => keys.delete(userId));
+    keys.set(userId, key);
+  }
+  return { userId, key: await keys.get(userId) };
+}
+
+async function writeBytes(store: SecureStore, key: string, bytes: BufferSource, type?: string) {
+  const account = await accountKey();
+  if (!account) return;
+
+  const id = `${account.userId}:${key}`;
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  // The record id is authenticated, so a ciphertext cannot be replayed under another key
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(id) },
+    account.key,
+    bytes
+  );
+  await idbPut<EncryptedRecord>(store, { id, iv, data, type, savedAt: new Date().toISOString() });
+}
+
+async function decryptRecord(store: SecureStore, record: EncryptedRecord, key: CryptoKey): Promise<ArrayBuffer | undefined> {
+  try {
+    return await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: record.iv, additionalData: new TextEncoder().encode(record.id) },
+      key,
+      record.data
+    );
+  } catch {
+    // Written under a key that no longer exists; it can never be read again
+    await idbDelete(store, record.id).catch(() => undefined);
+    return undefined;
+  }
+}
+
+async function readBytes(store: SecureStore, key: string) {
+  const account = await accountKey();
+  if (!account) return undefined;
+
+  const record = await idbGet<EncryptedRecord>(store, `${account.userId}:${key}`);
+  if (!record) return undefined;
+  const bytes = await decryptRecord(store, record, account.key);
+  return bytes && { bytes, type: record.type, savedAt: record.savedAt };
+}
+
+/**
+ * Encrypt and store a JSON value for the signed-in account
+ */
+export async function writeSecure(store: SecureStore, key: string, value: unknown): Promise<void> {
+  await writeBytes(store, key, new TextEncoder().encode(JSON.stringify(value)));
+}
+
+export async function readSecure<T>(store: SecureStore, key: string): Promise<{ value: T; savedAt: string } | undefined> {
+  const record = await readBytes(store, key);
+  if (!record) return undefined;
+  return { value: JSON.parse(new TextDecoder().decode(record.bytes)) as T, savedAt: record.savedAt };
+}
+
+/**
+ * Every readable value in a store for the signed-in account, oldest first
+ */
+export async function listSecure<T>(store: SecureStore): Promise<Array<{ key: string; value: T; savedAt: string }>> {
+  const account = await accountKey();
+  if (!account) return [];
+
+  const prefix = `${account.userId}:`;
+  const records = (await idbGetAll<EncryptedRecord>(store))
+    .filter(record => record.id.startsWith(prefix))
+    .sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+
+  const values: Array<{ key: string; value: T; savedAt: string }> = [];
+  for (const record of records) {
+    const bytes = await decryptRecord(store, record, account.key);
+    if (bytes) {
+      values.push({
+        key: record.id.slice(prefix.length),
+        value: JSON.parse(new TextDecoder().decode(bytes)) as T,
+        savedAt: record.savedAt,
+      });
+    }
+  }
+  return values;
+}
+
+export async function deleteSecure(store: SecureStore, key: string): Promise<void> {
+  const account = await accountKey();
+  if (account) await idbDelete(store, `${account.userId}:${key}`);
+}
+
+/**
+ * A request that failed because the device is offline or the backend is unreachable.
+ * While offline an expired session cannot refresh either, so any failure counts.
+ */
+export const isOfflineError = (error: unknown) =>
+  (isApiError(error) && error.kind === 'network') || (typeof navigator !== 'undefined' && !navigator.onLine);
+
+export const getLastSyncedAt = () => localStorage.getItem(LAST_SYNCED_KEY);
+
+const cacheKeyFor = (queryKey: readonly unknown[]) => `query:${JSON.stringify(queryKey)}`;
+
+/**
+ * Replace the cached copy of a query, e.g. after an offline edit changed it
+ */
+export function cacheQueryData(queryKey: readonly unknown[], data: unknown): Promise<void> {
+  return writeSecure('cache', cacheKeyFor(queryKey), data).catch((error) => {
+    logger.warn('Could not update offline cache:', error);
+  });
+}
+
+/**
+ * Run a query against the backend, keeping an encrypted copy of the result.
+ * When the backend cannot be reached, the cached copy is returned instead.
+ */
+export async function withOfflineFallback<T>(queryKey: readonly unknown[], fetcher: () => Promise<T>): Promise<T> {
+  try {
+    const data = await fetcher();
+    localStorage.setItem(LAST_SYNCED_KEY, new Date().toISOString());
+    cacheQueryData(queryKey, data);
+    return data;
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+    const cached = await readSecure<T>('cache', cacheKeyFor(queryKey)).catch(() => undefined);
+    if (!cached) throw error;
+    return cached.value;
+  }
+}
+
+const imageKey = (url: string) => `image:${url}`;
+
+/**
+ * Download and encrypt report images in the background; already cached ones are skipped
+ */
+export function cacheImages(paths: Array<string | null | undefined>): void {
+  const urls = [...new Set(paths.filter(Boolean).map(path => getStorageUrl(path)))];
+
+  (async () => {
+    const account = await accountKey();
+    if (!account) return;
+
+    for (const url of urls) {
+      if (await idbGet('cache', `${account.userId}:${imageKey(url)}`)) continue;
+      const response = await fetch(url);
+      if (!response.ok) continue;
+      const blob = await response.blob();
+      await writeBytes('cache', imageKey(url), await blob.arrayBuffer(), blob.type);
+    }
+  })().catch((error) => logger.warn('Could not cache report images:', error));
+}
+
+export async function getCachedImage(url: string): Promise<Blob | undefined> {
+  const record = await readBytes('cache', imageKey(url)).catch(() => undefined);
+  return record && new Blob([record.bytes], { type: record.type });
+}
+
+/**
+ * Remove every cached record, queued change and key; called on sign out
+ */
+export async function clearOfflineData(): Promise<void> {
+  keys.clear();
+  localStorage.removeItem(OWNER_KEY);
+  localStorage.removeItem(LAST_SYNCED_KEY);
+  await Promise.all((['cache', 'outbox', 'keys'] as const).map(store => idbClear(store)));
+}
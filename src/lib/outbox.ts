@@ -0,0 +1,115 @@
+/**
+ * Offline mutation queue
+ * Changes made without a connection are stored (encrypted, like the offline
+ * cache) and replayed in order once the backend is reachable again.
+ */
+import { deleteReport, renameFamilyConnection, inviteFamilyMember } from './api';
+import { writeSecure, listSecure, deleteSecure, isOfflineError } from './offline';
+import { describeError, isApiError } from './errors';
+import { logger } from './logger';
+
+export type OutboxMutation =
+  | { type: 'delete-report'; reportId: string }
+  | { type: 'rename-member'; connectionId: string; displayName: string }
+  | { type: 'invite-member'; invite: Parameters<typeof inviteFamilyMember>[0] };
+
+interface OutboxEntry {
+  id: string;
+  mutation: OutboxMutation;
+  queuedAt: string;
+}
+
+export interface OutboxResult {
+  queued: boolean; // Stored for replay instead of reaching the backend
+}
+
+export interface ReplaySummary {
+  replayed: number;
+  failed: Array<{ mutation: OutboxMutation; message: string }>;
+}
+
+function send(mutation: OutboxMutation): Promise<unknown> {
+  switch (mutation.type) {
+    case 'delete-report':
+      return deleteReport(mutation.reportId);
+    case 'rename-member':
+      return renameFamilyConnection(mutation.connectionId, mutation.displayName);
+    case 'invite-member':
+      return inviteFamilyMember(mutation.invite);
+  }
+}
+
+const listeners = new Set<() => void>();
+
+/**
+ * Subscribe to changes in the number of queued mutations
+ */
+export function onOutboxChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+const notify = () => listeners.forEach(listener => listener());
+
+async function pendingEntries(): Promise<OutboxEntry[]> {
+  const entries = await listSecure<OutboxEntry>('outbox');
+  return entries.map(entry => entry.value).sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+export async function pendingMutationCount(): Promise<number> {
+  return (await pendingEntries().catch(() => [])).length;
+}
+
+/**
+ * Send a mutation now, or queue it when the backend cannot be reached.
+ * Other failures are thrown as usual.
+ */
+export async function sendOrQueue(mutation: OutboxMutation): Promise<OutboxResult> {
+  try {
+    await send(mutation);
+    return { queued: false };
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+
+    const entry: OutboxEntry = { id: crypto.randomUUID(), mutation, queuedAt: new Date().toISOString() };
+    await writeSecure('outbox', entry.id, entry);
+    notify();
+    return { queued: true };
+  }
+}
+
+let replaying: Promise<ReplaySummary> | null = null;
+
+/**
+ * Replay queued mutations oldest first. Stops at the first network failure so
+ * the rest keep their order; a mutation the backend rejects is dropped.
+ */
+export function replayOutbox(): Promise<ReplaySummary> {
+  if (!replaying) {
+    replaying = (async () => {
+      const summary: ReplaySummary = { replayed: 0, failed: [] };
+
+      for (const entry of await pendingEntries()) {
+        try {
+          await send(entry.mutation);
+          summary.replayed++;
+        } catch (error) {
+          if (isOfflineError(error)) break;
+          // A report that is already gone is what the delete wanted
+          if (entry.mutation.type === 'delete-report' && isApiError(error) && error.kind === 'not-found') {
+            summary.replayed++;
+          } else {
+            logger.warn('Dropping queued change the server rejected:', entry.mutation.type, error);
+            summary.failed.push({ mutation: entry.mutation, message: describeError(error, 'The server rejected this change') });
+          }
+        }
+        await deleteSecure('outbox', entry.id);
+        notify();
+      }
+      return summary;
+    })().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
@@ -0,0 +1,87 @@
+/**
+ * Client-side PDF handling for the scan flow
+ * Renders page thumbnails, unlocks password-protected lab PDFs and rasterizes
+ * the pages the user keeps
+ */
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { canvasToFile } from './document';
+
+const THUMBNAIL_WIDTH = 160;
+// Long side for rasterized pages, in line with normalized photos
+const RASTER_LONG_SIDE = 2400;
+
+export class PdfPasswordError extends Error {
+  constructor(public reason: 'required' | 'incorrect') {
+    super(reason === 'required' ? 'This PDF is password protected' : 'Incorrect password');
+    this.name = 'PdfPasswordError';
+  }
+}
+
+// pdf.js is large, so it is only loaded once a PDF is picked
+async function loadPdfJs() {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  return pdfjs;
+}
+
+/**
+ * Open a PDF, throwing PdfPasswordError when a (correct) password is needed
+ */
+export async function openPdf(file: File, password?: string): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfJs();
+  const data = new Uint8Array(await file.arrayBuffer());
+
+  try {
+    return await pdfjs.getDocument({ data, password }).promise;
+  } catch (error) {
+    if ((error as { name?: string })?.name === 'PasswordException') {
+      const code = (error as { code?: number }).code;
+      throw new PdfPasswordError(code === pdfjs.PasswordResponses.INCORRECT_PASSWORD ? 'incorrect' : 'required');
+    }
+    throw error;
+  }
+}
+
+async function renderPage(doc: PDFDocumentProxy, pageNumber: number, scaleFor: (width: number, height: number) => number) {
+  const page = await doc.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: scaleFor(base.width, base.height) });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported on this device');
+
+  // PDF pages are transparent by default; JPEG needs a white page
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: context, viewport }).promise;
+  page.cleanup();
+  return canvas;
+}
+
+/**
+ * Small JPEG data URLs for every page, in page order
+ */
+export async function renderPdfThumbnails(doc: PDFDocumentProxy): Promise<string[]> {
+  const thumbnails: string[] = [];
+  for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+    const canvas = await renderPage(doc, pageNumber, (width) => THUMBNAIL_WIDTH / width);
+    thumbnails.push(canvas.toDataURL('image/jpeg', 0.7));
+  }
+  return thumbnails;
+}
+
+/**
+ * Rasterize the chosen pages to JPEG files, in the order given
+ */
+export async function rasterizePdfPages(doc: PDFDocumentProxy, pageNumbers: number[], baseName: string): Promise<File[]> {
+  const files: File[] = [];
+  for (const pageNumber of pageNumbers) {
+    const canvas = await renderPage(doc, pageNumber, (width, height) => RASTER_LONG_SIDE / Math.max(width, height));
+    files.push(await canvasToFile(canvas, `${baseName}_p${pageNumber}.jpg`));
+  }
+  return files;
+}
@@ -0,0 +1,156 @@
+/**
+ * Installable app support
+ * Registers the service worker (public/sw.js), hands it what it needs to send
+ * uploads left pending while offline, and manages Web Push subscriptions
+ */
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { idbPut, idbDelete } from './idb';
+import { savePushSubscription, deletePushSubscription } from './api';
+import { logger } from './logger';
+import { isSandbox } from './sandbox-mode';
+
+const SERVICE_WORKER_URL = '/sw.js';
+// Keep in step with public/sw.js
+const UPLOAD_SYNC_TAG = 'mediguide-uploads';
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+// Background Sync is not in the DOM typings yet
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
+/**
+ * What the worker needs to upload while no tab is open. Only the short-lived
+ * access token is shared; it is never refreshed by the worker.
+ */
+interface WorkerSession {
+  id: 'current';
+  // Only this account's pending uploads are sent with the token
+  userId: string;
+  accessToken: string;
+  expiresAt: number; // seconds since epoch, as Supabase reports it
+  apiUrl: string;
+}
+
+export type PushEnableResult = 'subscribed' | 'denied' | 'unsupported';
+
+export const isServiceWorkerSupported = () => 'serviceWorker' in navigator;
+
+export const isPushSupported = () =>
+  !isSandbox && isServiceWorkerSupported() && 'PushManager' in window && 'Notification' in window && !!VAPID_PUBLIC_KEY;
+
+async function mirrorSession(session: Session | null) {
+  try {
+    if (!session) {
+      await idbDelete('session', 'current');
+      return;
+    }
+    await idbPut<WorkerSession>('session', {
+      id: 'current',
+      userId: session.user.id,
+      accessToken: session.access_token,
+      expiresAt: session.expires_at,
+      apiUrl: import.meta.env.VITE_API_URL,
+    });
+  } catch (error) {
+    logger.warn('Could not share the session with the service worker:', error);
+  }
+}
+
+/**
+ * Register the service worker and keep its copy of the session current.
+ * Production only: the dev server's unbundled modules must not be cached.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !isServiceWorkerSupported()) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((error) => {
+      logger.warn('Service worker registration failed:', error);
+    });
+  }, { once: true });
+
+  // The worker uploads straight to the backend, which the sandbox does not have
+  if (isSandbox) return;
+  supabase.auth.onAuthStateChange((_event, session) => {
+    mirrorSession(session);
+  });
+}
+
+/**
+ * Ask the browser to wake the service worker once the connection is back,
+ * so a stalled upload still goes out if the tab has been closed by then
+ */
+export async function requestUploadSync() {
+  if (!isServiceWorkerSupported()) return;
+  try {
+    const registration = await navigator.serviceWorker.getRegistration() as SyncCapableRegistration | undefined;
+    await registration?.sync?.register(UPLOAD_SYNC_TAG);
+  } catch (error) {
+    logger.warn('Could not register background sync:', error);
+  }
+}
+
+/**
+ * Route notification clicks through the app instead of reloading the tab
+ */
+export function onServiceWorkerNavigate(navigate: (url: string) => void): () => void {
+  if (!isServiceWorkerSupported()) return () => undefined;
+
+  const onMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'navigate' && typeof event.data.url === 'string') {
+      navigate(event.data.url);
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', onMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+}
+
+// VAPID keys are URL-safe base64; PushManager wants raw bytes
+function decodeApplicationServerKey(key: string): Uint8Array {
+  const padded = `${key}${'='.repeat((4 - (key.length % 4)) % 4)}`;
+  const raw = atob(padded.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+/**
+ * Ask for permission and subscribe this device to notifications about finished
+ * reports, family invitations and flagged family reports
+ */
+export async function enablePushNotifications(): Promise<PushEnableResult> {
+  if (!isPushSupported()) return 'unsupported';
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) return 'unsupported';
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return 'denied';
+
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeApplicationServerKey(VAPID_PUBLIC_KEY),
+    });
+  await savePushSubscription(subscription.toJSON());
+  return 'subscribed';
+}
+
+/**
+ * Stop notifications on this device. The browser subscription is dropped even
+ * if the backend cannot be told; it prunes dead endpoints on its next send.
+ */
+export async function disablePushNotifications() {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  try {
+    await deletePushSubscription(subscription.endpoint);
+  } finally {
+    await subscription.unsubscribe();
+  }
+}
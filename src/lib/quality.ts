@@ -0,0 +1,119 @@
+/**
+ * On-device image quality scoring for the capture flow
+ * Catches blurry, glare-affected and low-resolution pages before they are uploaded
+ */
+
+export type QualityIssue = 'blur' | 'glare' | 'low-resolution';
+
+export interface QualityReport {
+  sharpness: number; // Variance of the Laplacian at the analysis size
+  glare: number; // Share of the worst grid cell that is blown out (0-1)
+  shortSide: number; // Shorter side of the source image in pixels
+  issues: QualityIssue[];
+}
+
+type QualitySource = HTMLImageElement | HTMLCanvasElement | HTMLVideoElement;
+
+// Scores are always computed at this size so thresholds do not depend on the source resolution
+const ANALYSIS_SIZE = 512;
+const MIN_SHARPNESS = 60;
+const GLARE_CELL_THRESHOLD = 0.45;
+const GLARE_GRID = 8;
+const SATURATED_LUMINANCE = 250;
+const MIN_SHORT_SIDE = 800;
+
+export const qualityMessages: Record<QualityIssue, { title: string; tip: string; hint: string }> = {
+  blur: {
+    title: 'The photo is blurry',
+    tip: 'Hold your phone steady and tap to focus before capturing.',
+    hint: 'Hold steady',
+  },
+  glare: {
+    title: 'There is glare on the page',
+    tip: 'Tilt the page or move away from direct light to remove bright spots.',
+    hint: 'Glare detected, tilt the page',
+  },
+  'low-resolution': {
+    title: 'The image resolution is too low',
+    tip: 'Move closer so the page fills the frame, or pick a higher quality photo.',
+    hint: 'Move closer',
+  },
+};
+
+function sourceSize(source: QualitySource) {
+  if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight };
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  return { width: source.width, height: source.height };
+}
+
+/**
+ * Score an image for sharpness, glare hot spots and effective resolution
+ */
+export function assessImageQuality(source: QualitySource, canvas = document.createElement('canvas')): QualityReport | null {
+  const { width: sourceWidth, height: sourceHeight } = sourceSize(source);
+  if (!sourceWidth || !sourceHeight) return null;
+
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(3, Math.round(sourceWidth * scale));
+  const height = Math.max(3, Math.round(sourceHeight * scale));
+
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(source, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  // Sharpness: variance of the 4-neighbour Laplacian
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  const sharpness = sumSquares / count - mean * mean;
+
+  // Glare: a localised cluster of blown-out pixels. A uniformly bright page is not glare,
+  // so the worst cell is only counted when the frame as a whole is not saturated.
+  const cellWidth = width / GLARE_GRID;
+  const cellHeight = height / GLARE_GRID;
+  const cellSaturated = new Array<number>(GLARE_GRID * GLARE_GRID).fill(0);
+  const cellTotal = new Array<number>(GLARE_GRID * GLARE_GRID).fill(0);
+  let saturated = 0;
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(GLARE_GRID - 1, Math.floor(y / cellHeight));
+    for (let x = 0; x < width; x++) {
+      const cell = row * GLARE_GRID + Math.min(GLARE_GRID - 1, Math.floor(x / cellWidth));
+      cellTotal[cell]++;
+      if (gray[y * width + x] >= SATURATED_LUMINANCE) {
+        cellSaturated[cell]++;
+        saturated++;
+      }
+    }
+  }
+
+  const worstCell = Math.max(...cellSaturated.map((value, i) => (cellTotal[i] ? value / cellTotal[i] : 0)));
+  const glare = saturated / gray.length > 0.6 ? 0 : worstCell;
+
+  const shortSide = Math.min(sourceWidth, sourceHeight);
+
+  const issues: QualityIssue[] = [];
+  if (sharpness < MIN_SHARPNESS) issues.push('blur');
+  if (glare > GLARE_CELL_THRESHOLD) issues.push('glare');
+  if (shortSide < MIN_SHORT_SIDE) issues.push('low-resolution');
+
+  return { sharpness, glare, shortSide, issues };
+}
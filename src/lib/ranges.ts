@@ -0,0 +1,129 @@
+/**
+ * Reference ranges
+ * Turns printed ranges ("70-100", "<200", ">40", "3.5 - 5.0") into bounds and
+ * grades how far a result sits outside them
+ */
+import type { ParameterFlag } from './api';
+import { parseReadingValue } from './trends';
+
+export interface ReferenceRange {
+  low?: number;
+  high?: number;
+}
+
+export type Severity = 'normal' | 'mild' | 'moderate' | 'critical';
+
+export interface RangeAssessment {
+  direction: 'low' | 'normal' | 'high';
+  deviation: number; // percent beyond the nearest bound; 0 inside the range
+  severity: Severity;
+  fromLab?: boolean; // the lab's flag was kept over the parsed range
+}
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+
+// Each pattern turns its match into bounds; the earliest match in the text wins
+const RANGE_PATTERNS: Array<[RegExp, (match: RegExpMatchArray) => ReferenceRange]> = [
+  [new RegExp(`${NUMBER}\\s*(?:-|–|—|to)\\s*${NUMBER}`, 'i'), match => ({ low: Number(match[1]), high: Number(match[2]) })],
+  [new RegExp(`(?:<=?|≤|up\\s*to|below|less than)\\s*${NUMBER}`, 'i'), match => ({ high: Number(match[1]) })],
+  [new RegExp(`(?:>=?|≥|above|more than|greater than)\\s*${NUMBER}`, 'i'), match => ({ low: Number(match[1]) })],
+];
+
+/**
+ * Bounds of a printed range, or null when it has none (e.g. "Negative").
+ * Ranges listing several bands ("Desirable: <200; Borderline: 200-239") use
+ * the first, which is the healthy one on Indian lab reports.
+ */
+export function parseReferenceRange(text?: string | null): ReferenceRange | null {
+  if (!text) return null;
+  const cleaned = text.replace(/,/g, '');
+
+  let range: ReferenceRange | null = null;
+  let earliest = Infinity;
+  for (const [pattern, toRange] of RANGE_PATTERNS) {
+    const match = cleaned.match(pattern);
+    if (match && match.index < earliest) {
+      earliest = match.index;
+      range = toRange(match);
+    }
+  }
+
+  if (range?.low !== undefined && range.high !== undefined && range.low > range.high) return null;
+  return range;
+}
+
+// Percent beyond the bound at which a result stops being mild / moderate.
+// Results can fall at most 100% below a bound, so lows are graded more tightly.
+const SEVERITY_STEPS = {
+  high: { mild: 20, moderate: 50 },
+  low: { mild: 10, moderate: 25 },
+};
+
+/**
+ * Where a value falls against its range. The lab's own flag is kept when the
+ * parsed range disagrees with it either way, since labs sometimes flag
+ * against a range specific to age or sex that is not the first one printed
+ * (a woman's hemoglobin of 12.5 against "M: 13-17, F: 12-15").
+ */
+export function assessResult(value: number, range: ReferenceRange, flag: ParameterFlag): RangeAssessment {
+  let direction: RangeAssessment['direction'] = 'normal';
+  let deviation = 0;
+
+  if (range.high !== undefined && value > range.high) {
+    direction = 'high';
+    deviation = ((value - range.high) / (Math.abs(range.high) || 1)) * 100;
+  } else if (range.low !== undefined && value < range.low) {
+    direction = 'low';
+    deviation = ((range.low - value) / (Math.abs(range.low) || 1)) * 100;
+  }
+
+  if (direction === 'normal') {
+    return flag === 'normal'
+      ? { direction, deviation: 0, severity: 'normal' }
+      : { direction: flag, deviation: 0, severity: 'mild', fromLab: true };
+  }
+  if (flag === 'normal') {
+    return { direction: 'normal', deviation: 0, severity: 'normal', fromLab: true };
+  }
+
+  const steps = SEVERITY_STEPS[direction];
+  const severity: Severity = deviation <= steps.mild ? 'mild' : deviation <= steps.moderate ? 'moderate' : 'critical';
+  return { direction, deviation, severity };
+}
+
+/**
+ * Flag for a result as printed, or null when the value or range is not
+ * numeric (e.g. "Negative") and the flag has to be chosen by hand
+ */
+export function flagForValue(value: string, rangeText?: string | null): ParameterFlag | null {
+  const number = parseReadingValue(value);
+  const range = parseReferenceRange(rangeText);
+  if (number === null || !range) return null;
+  if (range.high !== undefined && number > range.high) return 'high';
+  if (range.low !== undefined && number < range.low) return 'low';
+  return 'normal';
+}
+
+/**
+ * Scale for drawing a value against its range: the range sits in the middle
+ * with room either side, widened to take in values far outside it
+ */
+export function gaugeScale(value: number, range: ReferenceRange): { min: number; max: number } {
+  const { low, high } = range;
+  let min: number;
+  let max: number;
+
+  if (low !== undefined && high !== undefined) {
+    const padding = (high - low) * 0.5 || Math.abs(high) * 0.25 || 1;
+    min = Math.max(0, low - padding);
+    max = high + padding;
+  } else if (high !== undefined) {
+    min = 0;
+    max = high * 1.5 || 1;
+  } else {
+    min = 0;
+    max = low * 2 || 1;
+  }
+
+  return { min: Math.min(min, value), max: Math.max(max, value * 1.1) };
+}
@@ -0,0 +1,26 @@
+/**
+ * Shared report vocabulary
+ */
+import type { ExtractedParameter } from './api';
+
+// Report types understood by the backend, used by the History filter and the upload sheet
+export const REPORT_TYPES = [
+  'CBC',
+  'BMP',
+  'CMP',
+  'Lipid Panel',
+  'LFT',
+  'HbA1c',
+  'Thyroid',
+  'Urine',
+  'Stool',
+  'Genetic',
+  'Other',
+];
+
+/**
+ * A result as the lab printed it, e.g. "5.4 mg/dL (70 - 100)"
+ */
+export function formatReading({ value, unit, normal_range }: Pick<ExtractedParameter, 'value' | 'unit' | 'normal_range'>): string {
+  return `${value}${unit ? ` ${unit}` : ''}${normal_range ? ` (${normal_range})` : ''}`;
+}
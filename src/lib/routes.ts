@@ -0,0 +1,34 @@
+/**
+ * App routes
+ * Single place for URL paths so screens link to each other without hardcoding strings
+ */
+const biomarkerQuery = (biomarker?: string) =>
+  biomarker ? `?${new URLSearchParams({ biomarker })}` : '';
+
+export const routes = {
+  welcome: '/welcome',
+  home: '/',
+  history: '/history',
+  memberHistory: (memberId: string) => `/family/${memberId}/history`,
+  trends: (biomarker?: string) => `/trends${biomarkerQuery(biomarker)}`,
+  memberTrends: (memberId: string, biomarker?: string) => `/family/${memberId}/trends${biomarkerQuery(biomarker)}`,
+  scan: '/scan',
+  scanError: '/scan/error',
+  report: (reportId: string) => `/reports/${reportId}`,
+  reportProcessing: (reportId: string) => `/reports/${reportId}/processing`,
+  reportExplanation: (reportId: string) => `/reports/${reportId}/explanation`,
+  family: '/family',
+  addFamily: '/family/add',
+  profile: '/profile',
+  profileSetup: '/profile/edit',
+};
+
+// Route patterns, for matchPath and the route table
+export const routePatterns = {
+  memberHistory: '/family/:memberId/history',
+  trends: '/trends',
+  memberTrends: '/family/:memberId/trends',
+  report: '/reports/:id',
+  reportProcessing: '/reports/:id/processing',
+  reportExplanation: '/reports/:id/explanation',
+};
@@ -0,0 +1,32 @@
+/**
+ * Sandbox mode switch
+ * With VITE_SANDBOX=true every backend and Supabase request is answered in the
+ * browser by sandbox.ts. That module and its fixtures are imported only behind
+ * the flag, so builds without it leave them out.
+ */
+import type * as Sandbox from './sandbox';
+
+export const isSandbox: boolean = import.meta.env.VITE_SANDBOX === 'true';
+
+// Never resolved on the network: requests to these hosts are answered by sandbox.ts
+export const SANDBOX_API_URL = 'https://api.sandbox.invalid';
+export const SANDBOX_SUPABASE_URL = 'https://supabase.sandbox.invalid';
+export const SANDBOX_ANON_KEY = 'sandbox-anon-key';
+
+function loadSandbox(): Promise<typeof Sandbox> {
+  return isSandbox ? import('./sandbox') : Promise.reject(new Error('Sandbox mode is off; set VITE_SANDBOX=true'));
+}
+
+/**
+ * Drop-in for `fetch` that answers sandbox backend and Supabase URLs
+ */
+export async function sandboxFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  return (await loadSandbox()).sandboxFetch(input, init);
+}
+
+/**
+ * The report upload with simulated byte progress, for the XHR path in api.ts
+ */
+export async function sandboxUpload(...args: Parameters<typeof Sandbox.sandboxUpload>): Promise<Response> {
+  return (await loadSandbox()).sandboxUpload(...args);
+}
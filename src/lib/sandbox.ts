@@ -0,0 +1,855 @@
+/**
+ * Sandbox mode
+ * Answers every backend and Supabase request in the browser from fixture data
+ * (fixtures.ts), so demos, onboarding and component tests run without a server
+ * or a Supabase project. Enable it with VITE_SANDBOX=true; sandbox-mode.ts
+ * loads this module only then. State lives in memory and resets on reload;
+ * the sign-in is kept by Supabase like a real session.
+ */
+import type {
+  ChatMessage,
+  ExtractedParameter,
+  FamilyMember,
+  ParameterFlag,
+  ProcessingStage,
+  Report,
+  ReportParameter,
+  ReportStatus,
+  Synthesis,
+} from './schemas';
+import { extractedParameterSchema } from './schemas';
+import {
+  fixtureFor,
+  SANDBOX_EMAIL,
+  SANDBOX_PROFILE,
+  SANDBOX_USER_ID,
+  SEED_FAMILY_MEMBERS,
+  SEED_REPORTS,
+} from './fixtures';
+import { SANDBOX_API_URL, SANDBOX_SUPABASE_URL } from './sandbox-mode';
+
+// Simulated round trip, so loading states show as they would against a server
+const LATENCY_MIN_MS = 150;
+const LATENCY_MAX_MS = 450;
+const UPLOAD_MS = 1500;
+// Uploaded reports spend this long in each pipeline stage
+const STAGE_MS = 2500;
+const STAGES: ProcessingStage[] = ['queued', 'ocr', 'extraction', 'explanation', 'synthesis'];
+const SYNTHESIS_MS = 4000;
+const FREE_REPORTS_PER_MONTH = 3;
+const FAMILY_MEMBERS_LIMIT = 2;
+const TOKEN_TTL_S = 3600;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SandboxReport {
+  report: Report;
+  parameters: ReportParameter[];
+  synthesis: Synthesis;
+  synthesisReadyAt?: number;
+  chat: ChatMessage[];
+  fingerprints: string[];
+  // Set on uploads, which move through the pipeline from this moment
+  processingStartedAt?: number;
+}
+
+interface SandboxState {
+  reports: Map<string, SandboxReport>;
+  members: FamilyMember[];
+  profile: Record<string, unknown> | null;
+  // Idempotency-Key of each upload, so a retried upload returns the same report
+  uploadKeys: Map<string, string>;
+}
+
+type Fields = Record<string, unknown>;
+
+interface SandboxRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Headers;
+  // JSON bodies; uploads arrive as multipart form data instead
+  body?: Fields;
+  form?: FormData;
+}
+
+type Route = [method: string, pattern: RegExp, handler: (request: SandboxRequest, ...params: string[]) => Response];
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const noContent = () => new Response(null, { status: 204 });
+
+const detail = (status: number, message: string, code?: string) => json(status, { detail: message, code });
+
+const text = (fields: Fields | undefined, name: string): string | undefined =>
+  typeof fields?.[name] === 'string' ? (fields[name] as string) : undefined;
+
+const randomBetween = (min: number, max: number) => min + Math.random() * (max - min);
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Request aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Request aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+/**
+ * A printed-looking lab sheet, so the page viewer has something to show
+ */
+function renderPage(type: string, labName: string | null, parameters: Array<Omit<ReportParameter, 'id'>>): string {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const rows = parameters
+    .map((parameter, index) => {
+      const y = 150 + index * 34;
+      return `<text x="40" y="${y}" font-size="15">${escape(parameter.name)}</text>`
+        + `<text x="300" y="${y}" font-size="15" font-weight="bold">${escape(`${parameter.value} ${parameter.unit ?? ''}`)}</text>`
+        + `<text x="440" y="${y}" font-size="13" fill="#666">${escape(parameter.normal_range ?? '')}</text>`;
+    })
+    .join('');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="600" height="800" viewBox="0 0 600 800">`
+    + `<rect width="600" height="800" fill="#fff"/>`
+    + `<text x="40" y="60" font-size="24" font-family="sans-serif" font-weight="bold">${escape(labName ?? 'Laboratory Report')}</text>`
+    + `<text x="40" y="95" font-size="17" font-family="sans-serif">${escape(type)}</text>`
+    + `<line x1="40" y1="115" x2="560" y2="115" stroke="#ccc"/>`
+    + `<g font-family="sans-serif">${rows}</g>`
+    + `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+const withIds = (reportId: string, parameters: Array<Omit<ReportParameter, 'id'>>): ReportParameter[] =>
+  parameters.map((parameter, index) => ({ ...parameter, id: `${reportId}-p${index + 1}` }));
+
+const NOT_GENERATED: Synthesis = { status: 'not_generated' };
+
+function seedState(): SandboxState {
+  const now = Date.now();
+  const reports = new Map<string, SandboxReport>();
+
+  SEED_REPORTS.forEach((seed, index) => {
+    const id = `sandbox-report-${index + 1}`;
+    const fixture = fixtureFor(seed.type);
+    const parameters = fixture.parameters.map(parameter => ({ ...parameter, ...seed.results?.[parameter.name] }));
+    const createdAt = new Date(now - seed.daysAgo * DAY_MS).toISOString();
+    const image = renderPage(seed.type, seed.labName, parameters);
+    if (seed.patient) {
+      parameters.push(
+        { name: 'METADATA_AGE', value: seed.patient.age, flag: 'normal' },
+        { name: 'METADATA_SEX', value: seed.patient.sex, flag: 'normal' },
+      );
+    }
+
+    reports.set(id, {
+      report: {
+        id,
+        user_id: seed.userId,
+        date: createdAt.slice(0, 10),
+        type: seed.type,
+        lab_name: seed.labName,
+        flag_level: fixture.flagLevel,
+        uploaded_to_abdm: seed.uploadedToAbdm,
+        status: 'completed',
+        progress: 100,
+        image_url: image,
+        pages: [{ page_number: 1, image_url: image }],
+        created_at: createdAt,
+        updated_at: createdAt,
+      },
+      parameters: withIds(id, parameters),
+      synthesis: seed.withoutSynthesis ? NOT_GENERATED : fixture.synthesis,
+      chat: [],
+      fingerprints: [],
+    });
+  });
+
+  const members: FamilyMember[] = SEED_FAMILY_MEMBERS.map(({ daysAgo, ...member }) => ({
+    ...member,
+    created_at: new Date(now - daysAgo * DAY_MS).toISOString(),
+  }));
+
+  return { reports, members, profile: { ...SANDBOX_PROFILE }, uploadKeys: new Map() };
+}
+
+let sandboxState: SandboxState | null = null;
+const getState = () => (sandboxState ??= seedState());
+
+/**
+ * Move an uploaded report along the pipeline and finish pending syntheses,
+ * based on how much time has passed
+ */
+function advance(entry: SandboxReport): SandboxReport {
+  const now = Date.now();
+  const { report } = entry;
+
+  if (entry.processingStartedAt !== undefined && report.status === 'processing') {
+    const elapsed = now - entry.processingStartedAt;
+    const total = STAGE_MS * STAGES.length;
+    if (elapsed >= total) {
+      const fixture = fixtureFor(report.type);
+      entry.parameters = withIds(report.id, fixture.parameters);
+      entry.report = {
+        ...report,
+        status: 'completed',
+        progress: 100,
+        flag_level: fixture.flagLevel,
+        updated_at: new Date().toISOString(),
+      };
+    } else {
+      entry.report = { ...report, progress: Math.min(95, Math.round((elapsed / total) * 100)) };
+    }
+  }
+
+  if (entry.synthesis.status === 'pending' && entry.synthesisReadyAt !== undefined && now >= entry.synthesisReadyAt) {
+    entry.synthesis = fixtureFor(entry.report.type).synthesis;
+    entry.synthesisReadyAt = undefined;
+  }
+
+  return entry;
+}
+
+function statusOf(entry: SandboxReport): ReportStatus {
+  const { report } = entry;
+  if (report.status !== 'processing' || entry.processingStartedAt === undefined) {
+    return { report_id: report.id, status: report.status, progress: report.progress };
+  }
+  const stageIndex = Math.min(STAGES.length - 1, Math.floor((Date.now() - entry.processingStartedAt) / STAGE_MS));
+  return { report_id: report.id, status: 'processing', stage: STAGES[stageIndex], progress: report.progress };
+}
+
+const connectedMember = (userId: string) =>
+  getState().members.find(member => member.user_id === userId && member.connection_status === 'connected');
+
+const canSee = (userId: string) => userId === SANDBOX_USER_ID || !!connectedMember(userId);
+
+function findReport(reportId: string): SandboxReport | null {
+  const entry = getState().reports.get(reportId);
+  if (!entry || !canSee(entry.report.user_id)) return null;
+  return advance(entry);
+}
+
+// ---------------------------------------------------------------------------
+// MediBot
+// ---------------------------------------------------------------------------
+
+// Words in parameter names too generic to tell which one a question is about
+const GENERIC_WORDS = new Set(['total', 'free', 'count', 'estimated', 'average', 'blood', 'fasting', 'cholesterol']);
+
+function mentionedParameter(question: string, parameters: ReportParameter[]): ReportParameter | undefined {
+  const text = question.toLowerCase();
+  return parameters.find(parameter => text.includes(parameter.name.toLowerCase()))
+    ?? parameters.find(parameter =>
+      parameter.name
+        .toLowerCase()
+        .split(/[\s()]+/)
+        .some(word => word.length >= 3 && !GENERIC_WORDS.has(word) && text.includes(word))
+    );
+}
+
+/**
+ * Canned but report-aware answers: about a parameter the question names,
+ * otherwise diet advice or a summary of what was flagged
+ */
+function replyTo(question: string, entry: SandboxReport): string {
+  const text = question.toLowerCase();
+  const fixture = fixtureFor(entry.report.type);
+  const flagged = entry.parameters.filter(parameter => parameter.flag !== 'normal');
+
+  const parameter = mentionedParameter(question, entry.parameters);
+  if (parameter) {
+    const explanation = parameter.report_explanations?.[0];
+    const reading = `Your ${parameter.name} is ${parameter.value}${parameter.unit ? ` ${parameter.unit}` : ''}`
+      + (parameter.normal_range ? ` (normal range ${parameter.normal_range}).` : '.');
+    const steps = explanation?.next_steps?.length ? ` Next steps: ${explanation.next_steps.join('; ')}.` : '';
+    return [reading, explanation?.what, explanation?.meaning].filter(Boolean).join(' ') + steps;
+  }
+
+  if (/diet|food|eat|exercise|lifestyle/.test(text)) {
+    const tips = fixture.synthesis.wellness_recommendations ?? [];
+    return tips.length > 0
+      ? tips.map(tip => `${tip.title}: ${tip.description}`).join(' ')
+      : 'A balanced diet, regular exercise and good sleep will help keep these results healthy.';
+  }
+
+  if (flagged.length === 0) {
+    return 'All the results in this report are within their normal ranges. Keep up your current routine and repeat the test as your doctor advises.';
+  }
+
+  const list = flagged.map(item => `${item.name} (${item.value}${item.unit ? ` ${item.unit}` : ''}, ${item.flag})`).join(', ');
+  return `${fixture.synthesis.status_summary} The results to discuss with your doctor are: ${list}.`;
+}
+
+// ---------------------------------------------------------------------------
+// Backend routes
+// ---------------------------------------------------------------------------
+
+const TIME_RANGE_DAYS: Record<string, number> = { '7d': 7, '30d': 30, '90d': 90 };
+
+function listReports({ query }: SandboxRequest): Response {
+  const userId = query.get('target_user_id') || SANDBOX_USER_ID;
+  if (!canSee(userId)) return detail(403, "You don't have access to this person's reports");
+
+  const search = query.get('search')?.toLowerCase();
+  const type = query.get('report_type');
+  const flag = query.get('flag_level');
+  const status = query.get('status');
+  const days = TIME_RANGE_DAYS[query.get('time_range') ?? ''];
+  const page = Number(query.get('page')) || 1;
+  const limit = Number(query.get('limit')) || 20;
+
+  const matching = [...getState().reports.values()]
+    .map(advance)
+    .map(entry => entry.report)
+    .filter(report => report.user_id === userId)
+    .filter(report => !search || `${report.type} ${report.lab_name ?? ''}`.toLowerCase().includes(search))
+    .filter(report => !type || report.type === type)
+    .filter(report => !flag || report.flag_level === flag)
+    .filter(report => !status || report.status === status)
+    .filter(report => !days || Date.now() - Date.parse(report.created_at) <= days * DAY_MS)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  const items = matching.slice((page - 1) * limit, page * limit);
+  return json(200, {
+    items,
+    total: matching.length,
+    page,
+    limit,
+    has_next: page * limit < matching.length,
+    has_prev: page > 1,
+  });
+}
+
+// A single page comes as 'file', several as 'files' in page order
+function pagesOf(form: FormData): File[] {
+  return [...form.getAll('file'), ...form.getAll('files')].filter((file): file is File => file instanceof File);
+}
+
+function uploadReport({ headers, form }: SandboxRequest): Response {
+  const state = getState();
+  const idempotencyKey = headers.get('Idempotency-Key');
+  const previous = idempotencyKey && state.uploadKeys.get(idempotencyKey);
+  if (previous) return json(200, { report_id: previous, status: 'processing', message: 'Report already uploaded' });
+
+  if (!form) return detail(422, 'At least one page is required');
+  const files = pagesOf(form);
+  if (files.length === 0) return detail(422, 'At least one page is required');
+
+  const userId = (form.get('target_user_id') as string | null) || SANDBOX_USER_ID;
+  if (!canSee(userId)) return detail(403, "You don't have access to this person's reports");
+
+  const monthStart = new Date();
+  monthStart.setDate(1);
+  monthStart.setHours(0, 0, 0, 0);
+  const usedThisMonth = [...state.reports.values()]
+    .filter(entry => entry.processingStartedAt !== undefined && entry.processingStartedAt >= monthStart.getTime())
+    .length;
+  if (usedThisMonth >= FREE_REPORTS_PER_MONTH) {
+    return json(402, { detail: "You've used all your free scans for this month", code: 'free_scans_exhausted' });
+  }
+
+  const id = `sandbox-report-${crypto.randomUUID()}`;
+  const now = new Date().toISOString();
+  const pages = files.map((file, index) => ({ page_number: index + 1, image_url: URL.createObjectURL(file) }));
+  const fingerprints = form.get('fingerprints');
+
+  state.reports.set(id, {
+    report: {
+      id,
+      user_id: userId,
+      date: (form.get('collection_date') as string | null) || now.slice(0, 10),
+      type: (form.get('report_type') as string | null) || 'Other',
+      lab_name: form.get('lab_name') as string | null,
+      flag_level: 'green',
+      uploaded_to_abdm: false,
+      status: 'processing',
+      progress: 0,
+      image_url: pages[0].image_url,
+      pages,
+      created_at: now,
+      updated_at: now,
+    },
+    parameters: [],
+    synthesis: NOT_GENERATED,
+    chat: [],
+    fingerprints: typeof fingerprints === 'string' ? JSON.parse(fingerprints) : [],
+    processingStartedAt: Date.now(),
+  });
+  if (idempotencyKey) state.uploadKeys.set(idempotencyKey, id);
+
+  return json(200, { report_id: id, status: 'processing', message: 'Report uploaded' });
+}
+
+function findDuplicates({ body }: SandboxRequest): Response {
+  const fingerprints = Array.isArray(body?.fingerprints) ? (body.fingerprints as string[]) : [];
+  const userId = text(body, 'target_user_id') || SANDBOX_USER_ID;
+
+  const matches = [...getState().reports.values()]
+    .filter(entry => entry.report.user_id === userId)
+    .map(entry => ({
+      entry,
+      matched: entry.fingerprints.filter(fingerprint => fingerprints.includes(fingerprint)).length,
+    }))
+    .filter(({ matched }) => matched > 0)
+    .map(({ entry: { report }, matched }) => ({
+      report_id: report.id,
+      type: report.type,
+      date: report.date,
+      lab_name: report.lab_name,
+      created_at: report.created_at,
+      matched_pages: matched,
+    }));
+
+  return json(200, { matches });
+}
+
+function withReport(handler: (entry: SandboxReport, request: SandboxRequest, ...params: string[]) => Response) {
+  return (request: SandboxRequest, reportId: string, ...params: string[]) => {
+    const entry = findReport(reportId);
+    return entry ? handler(entry, request, ...params) : detail(404, 'Report not found');
+  };
+}
+
+function generateSynthesis(entry: SandboxReport, { query }: SandboxRequest): Response {
+  if (entry.report.status !== 'completed') return detail(400, 'The report is still being processed');
+  if (entry.synthesis.status === 'completed' && query.get('regenerate') !== 'true') {
+    return json(200, { status: 'completed', message: 'Synthesis already generated' });
+  }
+
+  entry.synthesis = { status: 'pending' };
+  entry.synthesisReadyAt = Date.now() + SYNTHESIS_MS;
+  return json(200, { status: 'pending', message: 'Synthesis started' });
+}
+
+function parameterFrom(entry: SandboxReport, body: Fields | undefined): ExtractedParameter | Response {
+  if (entry.report.user_id !== SANDBOX_USER_ID) return detail(403, 'Shared reports can only be corrected by their owner');
+  if (entry.report.status !== 'completed') return detail(400, 'The report is still being processed');
+
+  const parsed = extractedParameterSchema.safeParse(body);
+  if (!parsed.success || !parsed.data.name.trim() || !parsed.data.value.trim()) {
+    return detail(422, 'Enter the test name and its value');
+  }
+  return parsed.data as ExtractedParameter;
+}
+
+// Corrections can clear a report or flag it; a red level stays red until every result is normal
+function refreshFlagLevel(entry: SandboxReport): void {
+  const flagged = entry.parameters.some(parameter => parameter.flag !== 'normal');
+  const { flag_level } = entry.report;
+  entry.report = {
+    ...entry.report,
+    flag_level: !flagged ? 'green' : flag_level === 'green' ? 'yellow' : flag_level,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+function updateParameter(entry: SandboxReport, { body }: SandboxRequest, parameterId: string): Response {
+  const index = entry.parameters.findIndex(parameter => parameter.id === parameterId);
+  if (index === -1) return detail(404, 'Parameter not found');
+  const fields = parameterFrom(entry, body);
+  if (fields instanceof Response) return fields;
+
+  const { report_explanations, source, original, edited_at, id, ...extracted } = entry.parameters[index];
+  const parameter: ReportParameter = {
+    id,
+    ...fields,
+    source,
+    // The first extraction is kept however many times the result is corrected
+    original: source === 'manual' ? null : original ?? extracted,
+    edited_at: new Date().toISOString(),
+    // Written for the old value; regenerated on request
+    report_explanations: null,
+  };
+  entry.parameters[index] = parameter;
+  refreshFlagLevel(entry);
+  return json(200, parameter);
+}
+
+function addParameter(entry: SandboxReport, { body }: SandboxRequest): Response {
+  const fields = parameterFrom(entry, body);
+  if (fields instanceof Response) return fields;
+
+  const parameter: ReportParameter = {
+    id: `${entry.report.id}-m${crypto.randomUUID()}`,
+    ...fields,
+    source: 'manual',
+    edited_at: new Date().toISOString(),
+  };
+  entry.parameters.push(parameter);
+  refreshFlagLevel(entry);
+  return json(201, parameter);
+}
+
+const GENERIC_MEANINGS: Record<ParameterFlag, string> = {
+  normal: 'Your result is within the normal range.',
+  high: 'Your result is above the normal range. Discuss it with your doctor at your next visit.',
+  low: 'Your result is below the normal range. Discuss it with your doctor at your next visit.',
+};
+
+/**
+ * Explanations for corrected and added results: the fixture's when the result
+ * still reads the same way, otherwise a generic one for its flag
+ */
+function regenerateExplanations(entry: SandboxReport): Response {
+  const fixture = fixtureFor(entry.report.type);
+  entry.parameters = entry.parameters.map(parameter => {
+    if (parameter.report_explanations?.length) return parameter;
+    const match = fixture.parameters.find(item => item.name === parameter.name && item.flag === parameter.flag);
+    return {
+      ...parameter,
+      report_explanations: match?.report_explanations
+        ?? [{ what: `${parameter.name} as measured in this sample.`, meaning: GENERIC_MEANINGS[parameter.flag] }],
+    };
+  });
+  return json(200, entry.parameters);
+}
+
+function deleteReport(entry: SandboxReport): Response {
+  if (entry.report.user_id !== SANDBOX_USER_ID) return detail(403, 'Shared reports can only be deleted by their owner');
+  getState().reports.delete(entry.report.id);
+  return noContent();
+}
+
+function sendChatMessage(entry: SandboxReport, { body }: SandboxRequest): Response {
+  const message = text(body, 'message') ?? '';
+  if (!message.trim()) return detail(422, 'Message cannot be empty');
+
+  const chatMessage: ChatMessage = {
+    id: crypto.randomUUID(),
+    report_id: entry.report.id,
+    user_id: SANDBOX_USER_ID,
+    message,
+    response: replyTo(message, entry),
+    created_at: new Date().toISOString(),
+  };
+  entry.chat.push(chatMessage);
+  return json(200, chatMessage);
+}
+
+function askMediBot({ body }: SandboxRequest): Response {
+  const entry = findReport(text(body, 'report_id'));
+  if (!entry) return detail(404, 'Report not found');
+  return json(200, { response: replyTo(text(body, 'question') ?? '', entry) });
+}
+
+function premiumStatus(): Response {
+  const monthStart = new Date();
+  monthStart.setDate(1);
+  monthStart.setHours(0, 0, 0, 0);
+  const { reports, members } = getState();
+
+  return json(200, {
+    is_premium: false,
+    subscription_tier: 'free',
+    expires_at: null,
+    reports_used_this_month: [...reports.values()]
+      .filter(entry => entry.processingStartedAt !== undefined && entry.processingStartedAt >= monthStart.getTime())
+      .length,
+    reports_limit: FREE_REPORTS_PER_MONTH,
+    family_members_count: members.length,
+    family_members_limit: FAMILY_MEMBERS_LIMIT,
+  });
+}
+
+function inviteMember({ body }: SandboxRequest): Response {
+  const state = getState();
+  const email = text(body, 'email');
+  const phone = text(body, 'phone_number');
+  const targetUserId = text(body, 'target_user_id');
+  if (!email && !phone && !targetUserId) {
+    return detail(422, 'Enter an email address or phone number');
+  }
+  if (state.members.length >= FAMILY_MEMBERS_LIMIT) {
+    return json(402, { detail: 'Upgrade to premium to add more family members', code: 'quota_exceeded' });
+  }
+
+  const member: FamilyMember = {
+    connection_id: `sandbox-connection-${crypto.randomUUID()}`,
+    user_id: targetUserId ?? `sandbox-member-${crypto.randomUUID()}`,
+    display_name: text(body, 'nickname') ?? null,
+    profile_name: email ?? null,
+    phone: phone ?? null,
+    status: 'pending',
+    connection_status: 'pending-sent',
+    created_at: new Date().toISOString(),
+  };
+  state.members.push(member);
+  return json(200, { connection_id: member.connection_id, message: 'Invitation sent' });
+}
+
+function updateMember(
+  connectionId: string,
+  update: (member: FamilyMember) => FamilyMember | Response
+): Response {
+  const state = getState();
+  const index = state.members.findIndex(member => member.connection_id === connectionId);
+  if (index === -1) return detail(404, 'Connection not found');
+
+  const result = update(state.members[index]);
+  if (result instanceof Response) return result;
+  state.members[index] = result;
+  return json(200, { message: 'Connection updated' });
+}
+
+const apiRoutes: Route[] = [
+  ['GET', /^\/reports$/, listReports],
+  ['POST', /^\/reports\/upload$/, uploadReport],
+  ['POST', /^\/reports\/duplicates$/, findDuplicates],
+  ['GET', /^\/reports\/([^/]+)\/status$/, withReport(entry => json(200, statusOf(entry)))],
+  ['GET', /^\/reports\/([^/]+)\/parameters$/, withReport(entry => json(200, entry.parameters))],
+  ['POST', /^\/reports\/([^/]+)\/parameters$/, withReport(addParameter)],
+  ['PATCH', /^\/reports\/([^/]+)\/parameters\/([^/]+)$/, withReport(updateParameter)],
+  ['POST', /^\/reports\/([^/]+)\/regenerate-explanations$/, withReport(regenerateExplanations)],
+  ['GET', /^\/reports\/([^/]+)\/synthesis$/, withReport(entry => json(200, entry.synthesis))],
+  ['POST', /^\/reports\/([^/]+)\/generate-synthesis$/, withReport(generateSynthesis)],
+  ['GET', /^\/reports\/([^/]+)$/, withReport(entry => json(200, entry.report))],
+  ['DELETE', /^\/reports\/([^/]+)$/, withReport(deleteReport)],
+  ['POST', /^\/chat\/reports\/([^/]+)\/message$/, withReport(sendChatMessage)],
+  ['GET', /^\/chat\/reports\/([^/]+)\/history$/, withReport(entry => json(200, { messages: entry.chat, total: entry.chat.length }))],
+  ['POST', /^\/chatbot\/ask$/, askMediBot],
+  ['GET', /^\/premium\/status$/, premiumStatus],
+  ['GET', /^\/family\/members$/, () => json(200, getState().members)],
+  ['POST', /^\/family\/invite$/, inviteMember],
+  ['POST', /^\/family\/accept\/([^/]+)$/, ({ body }, connectionId) =>
+    updateMember(connectionId, member => member.connection_status !== 'pending-received'
+      ? detail(400, 'There is no invitation to accept')
+      : {
+        ...member,
+        connection_status: 'connected',
+        status: 'good',
+        display_name: text(body, 'display_name') ?? member.display_name,
+      }),
+  ],
+  ['PATCH', /^\/family\/connections\/([^/]+)\/rename$/, ({ body }, connectionId) =>
+    updateMember(connectionId, member => ({ ...member, display_name: text(body, 'display_name') ?? member.display_name })),
+  ],
+  ['POST', /^\/notifications\/push-subscriptions$/, () => json(200, { message: 'Subscribed' })],
+  ['DELETE', /^\/notifications\/push-subscriptions$/, noContent],
+];
+
+function handleApi(request: SandboxRequest): Response {
+  if (!request.headers.get('Authorization')?.startsWith('Bearer ')) {
+    return detail(401, 'Not authenticated');
+  }
+  return route(apiRoutes, request) ?? detail(404, 'Not found');
+}
+
+// ---------------------------------------------------------------------------
+// Supabase: auth, the profiles table and storage
+// ---------------------------------------------------------------------------
+
+const base64UrlEncode = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const base64UrlDecode = (text: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0)));
+
+function sandboxUser(email: string) {
+  const createdAt = new Date(Date.now() - 365 * DAY_MS).toISOString();
+  return {
+    id: SANDBOX_USER_ID,
+    aud: 'authenticated',
+    role: 'authenticated',
+    email,
+    email_confirmed_at: createdAt,
+    phone: '',
+    app_metadata: { provider: 'email', providers: ['email'] },
+    user_metadata: {},
+    identities: [],
+    created_at: createdAt,
+    updated_at: createdAt,
+  };
+}
+
+/**
+ * An unsigned JWT: Supabase only decodes the payload on the client
+ */
+function sandboxSession(email: string) {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const payload = {
+    sub: SANDBOX_USER_ID,
+    email,
+    role: 'authenticated',
+    aal: 'aal1',
+    session_id: 'sandbox-session',
+    iat: issuedAt,
+    exp: issuedAt + TOKEN_TTL_S,
+  };
+  const accessToken = [
+    base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })),
+    base64UrlEncode(JSON.stringify(payload)),
+    'sandbox',
+  ].join('.');
+
+  return {
+    access_token: accessToken,
+    token_type: 'bearer',
+    expires_in: TOKEN_TTL_S,
+    expires_at: issuedAt + TOKEN_TTL_S,
+    refresh_token: base64UrlEncode(email),
+    user: sandboxUser(email),
+  };
+}
+
+function emailFromToken(headers: Headers): string | null {
+  const token = headers.get('Authorization')?.replace(/^Bearer /, '');
+  try {
+    return JSON.parse(base64UrlDecode(token.split('.')[1])).email ?? null;
+  } catch {
+    return null;
+  }
+}
+
+const authError = (status: number, code: string, message: string) => json(status, { code, error_code: code, msg: message });
+
+const authRoutes: Route[] = [
+  ['POST', /^\/auth\/v1\/(otp|resend)$/, () => json(200, {})],
+  ['POST', /^\/auth\/v1\/(verify|signup)$/, ({ body }) => json(200, sandboxSession(text(body, 'email') || SANDBOX_EMAIL))],
+  ['POST', /^\/auth\/v1\/token$/, ({ query, body }) => {
+    if (query.get('grant_type') === 'refresh_token') {
+      try {
+        return json(200, sandboxSession(base64UrlDecode(text(body, 'refresh_token') ?? '')));
+      } catch {
+        return authError(400, 'refresh_token_not_found', 'Invalid Refresh Token');
+      }
+    }
+    return json(200, sandboxSession(text(body, 'email') || SANDBOX_EMAIL));
+  }],
+  ['GET', /^\/auth\/v1\/user$/, ({ headers }) => {
+    const email = emailFromToken(headers);
+    return email ? json(200, sandboxUser(email)) : authError(401, 'bad_jwt', 'invalid JWT');
+  }],
+  ['PUT', /^\/auth\/v1\/user$/, ({ headers }) => json(200, sandboxUser(emailFromToken(headers) ?? SANDBOX_EMAIL))],
+  ['POST', /^\/auth\/v1\/logout$/, noContent],
+];
+
+/**
+ * The profiles table, as PostgREST answers select / upsert / update
+ */
+function handleProfiles({ method, headers, body }: SandboxRequest): Response {
+  const state = getState();
+
+  if (method === 'GET') {
+    const single = headers.get('Accept')?.includes('application/vnd.pgrst.object+json');
+    if (!single) return json(200, state.profile ? [state.profile] : []);
+    return state.profile
+      ? json(200, state.profile)
+      : json(406, {
+        code: 'PGRST116',
+        message: 'JSON object requested, multiple (or no) rows returned',
+        details: 'The result contains 0 rows',
+        hint: null,
+      });
+  }
+
+  if (method === 'POST' || method === 'PATCH') {
+    const row = Array.isArray(body) ? body[0] : body;
+    state.profile = { ...(state.profile ?? {}), ...row, id: SANDBOX_USER_ID };
+    return new Response(null, { status: method === 'POST' ? 201 : 204 });
+  }
+
+  return json(405, { message: `${method} is not supported in sandbox mode` });
+}
+
+function handleSupabase(request: SandboxRequest): Response {
+  if (request.path.startsWith('/auth/v1/')) {
+    return route(authRoutes, request) ?? authError(404, 'not_found', 'Not available in sandbox mode');
+  }
+  if (request.path === '/rest/v1/profiles') {
+    return handleProfiles(request);
+  }
+  if (request.path.startsWith('/storage/v1/')) {
+    return json(400, { statusCode: '400', error: 'Sandbox', message: 'Photo uploads are not available in sandbox mode' });
+  }
+  return json(404, { message: 'Not available in sandbox mode' });
+}
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+function route(routes: Route[], request: SandboxRequest): Response | null {
+  for (const [method, pattern, handler] of routes) {
+    const match = request.method === method && pattern.exec(request.path);
+    if (match) return handler(request, ...match.slice(1).map(decodeURIComponent));
+  }
+  return null;
+}
+
+async function readBody(request: Request): Promise<Pick<SandboxRequest, 'body' | 'form'>> {
+  const contentType = request.headers.get('Content-Type') ?? '';
+  if (request.method === 'GET' || request.method === 'HEAD') return {};
+  if (contentType.includes('multipart/form-data')) return { form: await request.formData() };
+  const raw = await request.text();
+  try {
+    return { body: raw ? JSON.parse(raw) : undefined };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Drop-in for `fetch` that answers sandbox backend and Supabase URLs.
+ * Handler failures come back as a 500, like an unhandled server error.
+ */
+export async function sandboxFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const request = new Request(input, init);
+  await delay(randomBetween(LATENCY_MIN_MS, LATENCY_MAX_MS), request.signal);
+
+  const url = new URL(request.url);
+  const sandboxRequest: SandboxRequest = {
+    method: request.method.toUpperCase(),
+    path: url.pathname.replace(/\/+$/, '') || '/',
+    query: url.searchParams,
+    headers: request.headers,
+    ...(await readBody(request)),
+  };
+
+  try {
+    if (url.origin === SANDBOX_SUPABASE_URL) return handleSupabase(sandboxRequest);
+    if (url.origin === SANDBOX_API_URL) return handleApi(sandboxRequest);
+    return json(404, { message: `No sandbox handler for ${url.origin}` });
+  } catch (error) {
+    return detail(500, error instanceof Error ? error.message : 'Sandbox handler failed');
+  }
+}
+
+/**
+ * The report upload with simulated byte progress, for the XHR path in api.ts
+ */
+export async function sandboxUpload(
+  formData: FormData,
+  options: {
+    accessToken: string;
+    uploadId?: string;
+    onProgress?: (loaded: number, total: number) => void;
+    signal?: AbortSignal;
+  }
+): Promise<Response> {
+  const total = pagesOf(formData).reduce((sum, file) => sum + file.size, 0);
+  const steps = 10;
+  for (let step = 1; step <= steps; step++) {
+    await delay(UPLOAD_MS / steps, options.signal);
+    options.onProgress?.(Math.round((total * step) / steps), total);
+  }
+
+  const headers: Record<string, string> = { Authorization: `Bearer ${options.accessToken}` };
+  if (options.uploadId) headers['Idempotency-Key'] = options.uploadId;
+  return sandboxFetch(`${SANDBOX_API_URL}/reports/upload`, {
+    method: 'POST',
+    headers,
+    body: formData,
+    signal: options.signal,
+  });
+}
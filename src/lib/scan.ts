@@ -0,0 +1,140 @@
+/**
+ * Scan flow helpers
+ * Page model for the ScanScreen preview strip and preparation of pages for upload
+ */
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { rasterizePdfPages } from './pdf';
+
+export interface PdfPages {
+  document: PDFDocumentProxy;
+  thumbnails: string[];
+  selectedPages: number[]; // 1-based page numbers to upload
+  // Encrypted PDFs are always rasterized so the password never leaves the device
+  locked: boolean;
+}
+
+export interface CapturedPage {
+  id: string;
+  file: File;
+  previewUrl: string | null;
+  rotation: number; // Clockwise degrees: 0, 90, 180 or 270
+  originalSize?: number; // Size in bytes before normalization, when the file was re-encoded
+  pdf?: PdfPages;
+}
+
+export const isPdfFile = (file: File) => file.type === 'application/pdf';
+
+/**
+ * Wrap a picked or captured file as a page for the preview strip
+ */
+export function createCapturedPage(file: File, originalSize?: number, pdf?: PdfPages): CapturedPage {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    file,
+    previewUrl: isPdfFile(file) ? null : URL.createObjectURL(file),
+    rotation: 0,
+    originalSize,
+    pdf,
+  };
+}
+
+/**
+ * Release the object URL held by a page preview
+ */
+export function releaseCapturedPage(page: CapturedPage) {
+  if (page.previewUrl) {
+    URL.revokeObjectURL(page.previewUrl);
+  }
+  page.pdf?.document.destroy();
+}
+
+/**
+ * Move a page one slot left (-1) or right (+1), keeping the rest in order
+ */
+export function movePage(pages: CapturedPage[], index: number, direction: -1 | 1): CapturedPage[] {
+  const target = index + direction;
+  if (target < 0 || target >= pages.length) return pages;
+
+  const next = [...pages];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+/**
+ * Decode an image file into an HTMLImageElement
+ */
+export function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not decode image ${file instanceof File ? file.name : ''}`.trim()));
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * Re-encode an image rotated clockwise by the given number of degrees
+ */
+export async function rotateImageFile(file: File, degrees: number): Promise<File> {
+  const normalized = ((degrees % 360) + 360) % 360;
+  if (normalized === 0 || isPdfFile(file)) return file;
+
+  const img = await loadImage(file);
+  const swap = normalized === 90 || normalized === 270;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swap ? img.naturalHeight : img.naturalWidth;
+  canvas.height = swap ? img.naturalWidth : img.naturalHeight;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported on this device');
+
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.rotate((normalized * Math.PI) / 180);
+  context.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+  if (!blob) throw new Error('Failed to rotate image');
+
+  return new File([blob], file.name.replace(/\.\w+$/, '') + '.jpg', { type: 'image/jpeg' });
+}
+
+/**
+ * Number of pages an entry contributes to the report
+ */
+export const pageCount = (page: CapturedPage) => page.pdf ? page.pdf.selectedPages.length : 1;
+
+/**
+ * Resolve the preview strip into the ordered list of files to upload,
+ * baking each page's rotation into the image itself.
+ * A PDF goes up as-is when every page is kept; otherwise its kept pages are rasterized.
+ */
+export async function preparePagesForUpload(pages: CapturedPage[]): Promise<File[]> {
+  const prepared = await Promise.all(pages.map(async (page) => {
+    const { pdf } = page;
+    if (!pdf) {
+      return [await rotateImageFile(page.file, page.rotation)];
+    }
+
+    const keepsWholeFile = !pdf.locked
+      && page.rotation === 0
+      && pdf.selectedPages.length === pdf.document.numPages;
+    if (keepsWholeFile) {
+      return [page.file];
+    }
+
+    const ordered = [...pdf.selectedPages].sort((a, b) => a - b);
+    const baseName = page.file.name.replace(/\.pdf$/i, '');
+    const rasterized = await rasterizePdfPages(pdf.document, ordered, baseName);
+    return Promise.all(rasterized.map(file => rotateImageFile(file, page.rotation)));
+  }));
+
+  return prepared.flat();
+}
@@ -0,0 +1,213 @@
+/**
+ * Backend response schemas
+ * Every response is parsed against these before it reaches a screen, and the
+ * TypeScript types are derived from them so the two cannot drift apart.
+ * Optional fields are `nullish` because FastAPI serialises missing values as null.
+ */
+import { z } from 'zod';
+
+export const flagLevelSchema = z.enum(['green', 'yellow', 'red']);
+export const reportStateSchema = z.enum(['processing', 'completed', 'failed']);
+
+// Reports
+
+export const reportPageSchema = z.object({
+  page_number: z.number(),
+  image_url: z.string(),
+});
+
+export const reportSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  date: z.string().nullish(),
+  type: z.string(),
+  lab_name: z.string().nullish(),
+  patient_name: z.string().nullish(),
+  flag_level: flagLevelSchema,
+  uploaded_to_abdm: z.boolean().nullish(),
+  status: reportStateSchema,
+  progress: z.number().nullish(),
+  error_message: z.string().nullish(),
+  image_url: z.string().nullish(),
+  pages: z.array(reportPageSchema).nullish(),
+  created_at: z.string(),
+  updated_at: z.string().nullish(),
+});
+
+export const reportListSchema = z.object({
+  items: z.array(reportSchema),
+  total: z.number(),
+  page: z.number(),
+  limit: z.number(),
+  has_next: z.boolean(),
+  has_prev: z.boolean(),
+});
+
+export const processingStageSchema = z.enum(['queued', 'ocr', 'extraction', 'explanation', 'synthesis']);
+
+export const reportStatusSchema = z.object({
+  report_id: z.string(),
+  status: reportStateSchema,
+  stage: processingStageSchema.nullish(),
+  progress: z.number().nullish(), // 0-100, reported by the pipeline
+  error_message: z.string().nullish(),
+  error_code: z.string().nullish(), // Machine-readable failure reason, e.g. 'unreadable_image'
+});
+
+export const uploadReportResponseSchema = z.object({
+  report_id: z.string(),
+  status: z.string(),
+  message: z.string().nullish(),
+});
+
+export const duplicateReportMatchSchema = z.object({
+  report_id: z.string(),
+  type: z.string(),
+  date: z.string().nullish(),
+  lab_name: z.string().nullish(),
+  created_at: z.string(),
+  matched_pages: z.number(),
+});
+
+export const duplicateReportsSchema = z.object({
+  matches: z.array(duplicateReportMatchSchema),
+});
+
+// Parameters and explanations
+
+export const parameterExplanationSchema = z.object({
+  what: z.string(),
+  meaning: z.string(),
+  causes: z.array(z.string()).nullish(),
+  next_steps: z.array(z.string()).nullish(),
+});
+
+const parameterFlagSchema = z.enum(['normal', 'high', 'low']);
+
+// A parameter as extraction read it, kept when the user corrects it
+export const extractedParameterSchema = z.object({
+  name: z.string(),
+  // Extracted numbers sometimes arrive unquoted
+  value: z.coerce.string(),
+  unit: z.string().nullish(),
+  normal_range: z.string().nullish(),
+  flag: parameterFlagSchema,
+});
+
+export const reportParameterSchema = extractedParameterSchema.extend({
+  id: z.string(),
+  report_explanations: z.array(parameterExplanationSchema).nullish(),
+  // 'manual' for results the user added that extraction missed
+  source: z.enum(['extracted', 'manual']).nullish(),
+  original: extractedParameterSchema.nullish(),
+  edited_at: z.string().nullish(),
+});
+
+export const reportParametersSchema = z.array(reportParameterSchema);
+
+export const synthesisSchema = z.object({
+  status_summary: z.string().nullish(),
+  key_trends: z.array(z.string()).nullish(),
+  doctor_precis: z.string().nullish(),
+  status: z.string(),
+  suggested_questions: z.array(z.string()).nullish(),
+  wellness_recommendations: z.array(z.object({
+    title: z.string(),
+    description: z.string(),
+  })).nullish(),
+});
+
+// Chat
+
+export const chatMessageSchema = z.object({
+  id: z.string(),
+  report_id: z.string(),
+  user_id: z.string(),
+  message: z.string(),
+  response: z.string(),
+  created_at: z.string(),
+});
+
+export const chatHistorySchema = z.object({
+  messages: z.array(chatMessageSchema.pick({ id: true, message: true, response: true, created_at: true })),
+  total: z.number(),
+});
+
+export const mediBotReplySchema = z.object({
+  response: z.string(),
+});
+
+// Account
+
+export const premiumStatusSchema = z.object({
+  is_premium: z.boolean(),
+  subscription_tier: z.enum(['free', 'premium']),
+  expires_at: z.string().nullish(),
+  reports_used_this_month: z.number(),
+  reports_limit: z.number().nullable(),
+  family_members_count: z.number(),
+  family_members_limit: z.number().nullable(),
+});
+
+export const familyMemberSchema = z.object({
+  connection_id: z.string(),
+  user_id: z.string(),
+  display_name: z.string().nullish(),
+  profile_name: z.string().nullish(),
+  phone: z.string().nullish(),
+  status: z.enum(['good', 'needs-review', 'critical', 'pending']),
+  connection_status: z.enum(['connected', 'pending-sent', 'pending-received']),
+  created_at: z.string(),
+});
+
+export const familyMembersSchema = z.array(familyMemberSchema);
+
+export const familyInviteSchema = z.object({
+  connection_id: z.string(),
+  message: z.string().nullish(),
+});
+
+// Acknowledgements from actions that return no resource
+export const messageSchema = z.object({
+  message: z.string().nullish(),
+});
+
+export const synthesisJobSchema = z.object({
+  status: z.string(),
+  message: z.string().nullish(),
+});
+
+// Without strictNullChecks z.infer marks every field optional, so types are read
+// off the schema shape instead: only `.optional()`/`.nullish()` fields are optional
+type Output<S> =
+  S extends z.ZodOptional<infer Inner> ? Output<Inner>
+    : S extends z.ZodNullable<infer Inner> ? Output<Inner>
+      : S extends z.ZodArray<infer Item> ? Array<Output<Item>>
+        : S extends z.ZodObject<infer Shape> ? ObjectOutput<Shape>
+          : S extends z.ZodTypeAny ? z.output<S> : never;
+
+type ObjectOutput<Shape extends z.ZodRawShape> = {
+  [K in keyof Shape as Shape[K] extends z.ZodOptional<z.ZodTypeAny> ? never : K]: Output<Shape[K]>;
+} & {
+  [K in keyof Shape as Shape[K] extends z.ZodOptional<z.ZodTypeAny> ? K : never]?: Output<Shape[K]>;
+};
+
+export type Infer<S extends z.ZodTypeAny> = Output<S>;
+
+export type FlagLevel = Infer<typeof flagLevelSchema>;
+export type ReportPage = Infer<typeof reportPageSchema>;
+export type Report = Infer<typeof reportSchema>;
+export type ReportList = Infer<typeof reportListSchema>;
+export type ProcessingStage = Infer<typeof processingStageSchema>;
+export type ReportStatus = Infer<typeof reportStatusSchema>;
+export type UploadReportResponse = Infer<typeof uploadReportResponseSchema>;
+export type DuplicateReportMatch = Infer<typeof duplicateReportMatchSchema>;
+export type ParameterExplanation = Infer<typeof parameterExplanationSchema>;
+export type ParameterFlag = Infer<typeof parameterFlagSchema>;
+export type ExtractedParameter = Infer<typeof extractedParameterSchema>;
+export type ReportParameter = Infer<typeof reportParameterSchema>;
+export type Synthesis = Infer<typeof synthesisSchema>;
+export type ChatMessage = Infer<typeof chatMessageSchema>;
+export type ChatHistory = Infer<typeof chatHistorySchema>;
+export type PremiumStatus = Infer<typeof premiumStatusSchema>;
+export type FamilyMember = Infer<typeof familyMemberSchema>;
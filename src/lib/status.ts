@@ -0,0 +1,151 @@
+/**
+ * Report processing status channel
+ * Pushes pipeline updates from Supabase realtime on the reports row, with
+ * polling of /reports/:id/status as a backstop when the socket is unavailable
+ */
+import { supabase } from './supabase';
+import { getReportStatus, ReportStatus, ProcessingStage } from './api';
+import { isApiError } from './errors';
+import { isSandbox } from './sandbox-mode';
+
+export const PROCESSING_STAGES: ProcessingStage[] = ['ocr', 'extraction', 'explanation', 'synthesis'];
+
+export const stageLabels: Record<ProcessingStage, string> = {
+  queued: 'Waiting to start',
+  ocr: 'Reading your report',
+  extraction: 'Extracting test results',
+  explanation: 'Writing explanations',
+  synthesis: 'Summarising your health',
+};
+
+// Polling backs off from 1s to 15s while nothing changes; with a live
+// realtime channel it only runs as a slow safety net
+const POLL_BASE_MS = 1000;
+const POLL_MAX_MS = 15000;
+const POLL_SUBSCRIBED_MS = 30000;
+
+// Supabase reuses channels with the same topic, so every subscriber gets its own
+let subscriptionCount = 0;
+
+interface ReportRow {
+  id: string;
+  status: ReportStatus['status'];
+  processing_stage?: ProcessingStage | null;
+  progress?: number | null;
+  error_message?: string | null;
+}
+
+const fromRow = (row: ReportRow): ReportStatus => ({
+  report_id: row.id,
+  status: row.status,
+  stage: row.processing_stage ?? undefined,
+  progress: row.progress ?? undefined,
+  error_message: row.error_message ?? undefined,
+});
+
+/**
+ * Progress for the bar: the server's own figure when it reports one,
+ * otherwise the share of pipeline stages already finished
+ */
+export function statusProgress(status: ReportStatus): number {
+  if (status.status === 'completed') return 100;
+  if (typeof status.progress === 'number') {
+    return Math.max(0, Math.min(100, status.progress));
+  }
+  const index = status.stage ? PROCESSING_STAGES.indexOf(status.stage) : -1;
+  return Math.round(((index + 1) / (PROCESSING_STAGES.length + 1)) * 100);
+}
+
+export const isTerminalStatus = (status: ReportStatus) =>
+  status.status === 'completed' || status.status === 'failed';
+
+/**
+ * A missing or invalid report will never produce a status, so polling stops
+ */
+export const isFatalStatusError = (error: unknown) =>
+  isApiError(error) && (error.kind === 'not-found' || error.kind === 'validation');
+
+/**
+ * Follow a report until it completes or fails. Every distinct update is passed
+ * to onStatus; onError receives polling failures (the subscription keeps going
+ * unless the report is missing). Returns an unsubscribe function.
+ */
+export function subscribeToReportStatus(
+  reportId: string,
+  onStatus: (status: ReportStatus) => void,
+  onError?: (error: unknown) => void
+): () => void {
+  let closed = false;
+  let subscribed = false;
+  let idlePolls = 0;
+  let lastKey = '';
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    if (timer) clearTimeout(timer);
+    if (channel) supabase.removeChannel(channel);
+  };
+
+  const emit = (status: ReportStatus) => {
+    if (closed) return;
+    const key = `${status.status}:${status.stage ?? ''}:${status.progress ?? ''}`;
+    if (key === lastKey) {
+      idlePolls += 1;
+      return;
+    }
+    lastKey = key;
+    idlePolls = 0;
+    onStatus(status);
+    if (isTerminalStatus(status)) close();
+  };
+
+  const schedulePoll = () => {
+    if (closed) return;
+    if (timer) clearTimeout(timer);
+    const delay = subscribed
+      ? POLL_SUBSCRIBED_MS
+      : Math.min(POLL_BASE_MS * 2 ** idlePolls, POLL_MAX_MS);
+    timer = setTimeout(poll, delay);
+  };
+
+  const poll = async () => {
+    try {
+      emit(await getReportStatus(reportId));
+    } catch (error) {
+      if (closed) return;
+      idlePolls += 1;
+      onError?.(error);
+      if (isFatalStatusError(error)) {
+        close();
+        return;
+      }
+    }
+    schedulePoll();
+  };
+
+  // The sandbox has no realtime server; polling alone follows its reports
+  const channel = isSandbox ? null : supabase
+    .channel(`report-status-${reportId}-${++subscriptionCount}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'reports', filter: `id=eq.${reportId}` },
+      (payload) => emit(fromRow(payload.new as ReportRow))
+    )
+    .subscribe((state) => {
+      const wasSubscribed = subscribed;
+      subscribed = state === 'SUBSCRIBED';
+      if (subscribed !== wasSubscribed) {
+        // Fetch once on (re)connect so updates sent before the socket opened are not missed,
+        // and speed polling back up when the socket drops
+        idlePolls = 0;
+        if (timer) clearTimeout(timer);
+        poll();
+      }
+    });
+
+  poll();
+
+  return close;
+}
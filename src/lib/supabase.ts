@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import { logger } from './logger';
+import { isSandbox, sandboxFetch, SANDBOX_SUPABASE_URL, SANDBOX_ANON_KEY } from './sandbox-mode';
 
 /**
  * Supabase client configuration
@@ -7,11 +9,11 @@ import { createClient } from '@supabase/supabase-js';
  */
 
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
+const supabaseUrl = isSandbox ? SANDBOX_SUPABASE_URL : import.meta.env.VITE_SUPABASE_URL || '';
+const supabaseAnonKey = isSandbox ? SANDBOX_ANON_KEY : import.meta.env.VITE_SUPABASE_ANON_KEY || '';
 
 if (!supabaseUrl || !supabaseAnonKey) {
-  console.warn(
+  logger.warn(
     'Supabase credentials not found. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file'
   );
 }
@@ -26,4 +28,6 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
     persistSession: true,
     detectSessionInUrl: true,
   },
+  // Sandbox mode answers auth, profile and storage requests in the browser
+  ...(isSandbox && { global: { fetch: sandboxFetch } }),
 });
@@ -0,0 +1,104 @@
+/**
+ * Biomarker trends
+ * Gathers each parameter's values across a person's reports so one biomarker
+ * can be followed over time
+ */
+import type { Report, ReportParameter } from './api';
+import { Analyte, findAnalyte, isMetadataParameter, normalizeParameterName } from './biomarkers';
+import { toUnitSystem, unitKey, UnitSystem } from './units';
+
+export type ReadingFlag = ReportParameter['flag'];
+
+export interface Reading {
+  reportId: string;
+  reportType: string;
+  date: string; // ISO date of the sample, or of the upload when the lab date is missing
+  value: number;
+  unit?: string;
+  normalRange?: string;
+  reported?: string; // value and unit as printed, when converted to the preferred units
+  flag: ReadingFlag;
+}
+
+export interface Biomarker {
+  key: string;
+  name: string;
+  analyte: Analyte | null; // null for tests the catalog does not know
+  readings: Reading[]; // oldest first
+  latest: Reading;
+}
+
+/**
+ * Key that groups the same parameter across reports: the catalog analyte when
+ * the name is known, otherwise the name with spelling differences folded away
+ */
+export function biomarkerKey(name: string): string {
+  return findAnalyte(name)?.id ?? normalizeParameterName(name);
+}
+
+/**
+ * Numeric value of a reading such as "6.8", "1,200" or "<0.5"; null for
+ * qualitative results like "Negative"
+ */
+export function parseReadingValue(value: string): number | null {
+  const match = value.replace(/,/g, '').match(/^\s*[<>≤≥]?=?\s*(-?\d+(?:\.\d+)?)\s*$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Group the numeric parameters of every report by biomarker, converted to one
+ * unit system so labs reporting in mg/dL and mmol/L share an axis. Biomarkers
+ * seen most often come first, since those are the ones with a trend to show.
+ */
+export function collectBiomarkers(
+  reports: Report[],
+  parametersByReport: Map<string, ReportParameter[]>,
+  unitSystem: UnitSystem,
+): Biomarker[] {
+  const groups = new Map<string, { name: string; analyte: Analyte | null; readings: Reading[] }>();
+
+  reports.forEach(report => {
+    const date = report.date || report.created_at;
+    (parametersByReport.get(report.id) ?? []).forEach(parameter => {
+      if (isMetadataParameter(parameter.name)) return;
+      const analyte = findAnalyte(parameter.name);
+      const shown = toUnitSystem(
+        analyte,
+        { value: parameter.value, unit: parameter.unit, range: parameter.normal_range },
+        unitSystem,
+      );
+      const value = parseReadingValue(shown.value);
+      if (value === null) return;
+
+      const key = analyte?.id ?? normalizeParameterName(parameter.name);
+      if (!key) return;
+      const group = groups.get(key) ?? { name: analyte?.displayName ?? parameter.name, analyte, readings: [] };
+      group.readings.push({
+        reportId: report.id,
+        reportType: report.type,
+        date,
+        value,
+        unit: shown.unit ?? undefined,
+        normalRange: shown.range ?? undefined,
+        reported: shown.reported ? `${parameter.value} ${parameter.unit}` : undefined,
+        flag: parameter.flag,
+      });
+      groups.set(key, group);
+    });
+  });
+
+  return Array.from(groups, ([key, { name, analyte, readings }]) => {
+    readings.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const latest = readings[readings.length - 1];
+    return { key, name, analyte, readings, latest };
+  }).sort((a, b) => b.readings.length - a.readings.length || a.name.localeCompare(b.name));
+}
+
+/**
+ * Readings that can share one axis with the latest: values in a unit that
+ * could not be converted would be plotted on the wrong scale
+ */
+export function comparableReadings(biomarker: Biomarker): Reading[] {
+  const unit = unitKey(biomarker.latest.unit);
+  return biomarker.readings.filter(reading => unitKey(reading.unit) === unit);
+}
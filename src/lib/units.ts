@@ -0,0 +1,175 @@
+/**
+ * Unit conversion
+ * Converts results between conventional units (mg/dL, g/dL) and SI units
+ * (mmol/L, g/L) with analyte-specific factors, so reports from labs that use
+ * either system read the same way
+ */
+import type { Analyte } from './biomarkers';
+
+export type UnitSystem = 'conventional' | 'si';
+
+/**
+ * si = (conventional - offset) * factor. Only HbA1c needs the offset: IFCC
+ * mmol/mol is not proportional to the NGSP percentage.
+ */
+interface UnitConversion {
+  conventional: string;
+  si: string;
+  factor: number;
+  offset?: number;
+  decimals: Record<UnitSystem, number>;
+}
+
+const linear = (conventional: string, si: string, factor: number, decimals: [number, number]): UnitConversion => ({
+  conventional,
+  si,
+  factor,
+  decimals: { conventional: decimals[0], si: decimals[1] },
+});
+
+const GLUCOSE = linear('mg/dL', 'mmol/L', 0.05551, [0, 1]);
+const CHOLESTEROL = linear('mg/dL', 'mmol/L', 0.02586, [0, 2]);
+const PROTEIN = linear('g/dL', 'g/L', 10, [1, 0]);
+const BILIRUBIN = linear('mg/dL', 'µmol/L', 17.1, [1, 0]);
+
+// Keyed by catalog analyte id (biomarkers.ts)
+const CONVERSIONS: Record<string, UnitConversion> = {
+  'hemoglobin': linear('g/dL', 'g/L', 10, [1, 0]),
+  'mchc': linear('g/dL', 'g/L', 10, [1, 0]),
+  'hematocrit': linear('%', 'L/L', 0.01, [0, 2]),
+  'rbc': linear('10^6/µL', '10^12/L', 1, [2, 2]),
+  'wbc': linear('10^3/µL', '10^9/L', 1, [1, 1]),
+  'platelets': linear('10^3/µL', '10^9/L', 1, [0, 0]),
+
+  'total-cholesterol': CHOLESTEROL,
+  'ldl': CHOLESTEROL,
+  'hdl': CHOLESTEROL,
+  'vldl': CHOLESTEROL,
+  'non-hdl': CHOLESTEROL,
+  'triglycerides': linear('mg/dL', 'mmol/L', 0.01129, [0, 2]),
+
+  'total-bilirubin': BILIRUBIN,
+  'direct-bilirubin': BILIRUBIN,
+  'indirect-bilirubin': BILIRUBIN,
+  'albumin': PROTEIN,
+  'total-protein': PROTEIN,
+  'globulin': PROTEIN,
+
+  'creatinine': linear('mg/dL', 'µmol/L', 88.42, [2, 0]),
+  'urea': linear('mg/dL', 'mmol/L', 0.1665, [0, 1]),
+  'bun': linear('mg/dL', 'mmol/L', 0.357, [0, 1]),
+  'uric-acid': linear('mg/dL', 'µmol/L', 59.48, [1, 0]),
+
+  'tsh': linear('µIU/mL', 'mIU/L', 1, [2, 2]),
+  'free-t4': linear('ng/dL', 'pmol/L', 12.87, [2, 1]),
+  'free-t3': linear('pg/mL', 'pmol/L', 1.536, [2, 1]),
+  'total-t4': linear('µg/dL', 'nmol/L', 12.87, [1, 0]),
+  'total-t3': linear('ng/dL', 'nmol/L', 0.01536, [0, 2]),
+
+  'hba1c': { conventional: '%', si: 'mmol/mol', factor: 10.929, offset: 2.15, decimals: { conventional: 1, si: 0 } },
+  'eag': GLUCOSE,
+  'fasting-glucose': GLUCOSE,
+  'postprandial-glucose': GLUCOSE,
+  'glucose': GLUCOSE,
+};
+
+// Spellings labs use for the same unit, after unitKey's clean-up
+const UNIT_ALIASES: Record<string, string> = {
+  'mg%': 'mg/dl',
+  'g%': 'g/dl',
+  'gm%': 'g/dl',
+  'gm/dl': 'g/dl',
+  'gms/dl': 'g/dl',
+  'meq/l': 'mmol/l',
+  'mcg/dl': 'µg/dl',
+};
+
+/**
+ * Comparable form of a printed unit: case, spacing, micro signs and
+ * power-of-ten notations ("x10³/uL", "thou/cumm") folded together
+ */
+export function unitKey(unit?: string | null): string {
+  const key = (unit ?? '')
+    .toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/μ/g, 'µ') // Greek mu to micro sign
+    .replace(/³/g, '3')
+    .replace(/⁶/g, '6')
+    .replace(/^x/, '')
+    .replace(/^thou(?=\/)/, '10^3')
+    .replace(/^10(?:\^|e)?(\d+)(?=\/)/, '10^$1')
+    .replace(/(^|\/)u(?=(mol|g|iu|l)\b)/g, '$1µ')
+    .replace(/(cumm|mm3)$/, 'µl');
+  return UNIT_ALIASES[key] ?? key;
+}
+
+export interface Measurement {
+  value: string;
+  unit?: string;
+  range?: string;
+}
+
+export interface DisplayMeasurement extends Measurement {
+  // What the lab printed, kept when the value was converted
+  reported?: Measurement;
+}
+
+// Only plain numbers and range punctuation are converted; ranges with age
+// bands or notes in them are left as printed
+const CONVERTIBLE_TEXT = /^[\s\d.,<>≤≥=–-]*(?:to[\s\d.,]*)?$/i;
+
+function convertText(text: string, convert: (value: number) => string): string | null {
+  if (!CONVERTIBLE_TEXT.test(text) || !/\d/.test(text)) return null;
+  return text.replace(/\d[\d,]*(?:\.\d+)?/g, number => convert(Number(number.replace(/,/g, ''))));
+}
+
+function systemOf(conversion: UnitConversion, unit?: string | null): UnitSystem | null {
+  const key = unitKey(unit);
+  if (key === unitKey(conversion.conventional)) return 'conventional';
+  if (key === unitKey(conversion.si)) return 'si';
+  return null;
+}
+
+/**
+ * A result in the preferred unit system. Results the catalog cannot convert
+ * (unknown analytes or units, qualitative values) come back as printed.
+ */
+export function toUnitSystem(analyte: Analyte | null, measurement: Measurement, system: UnitSystem): DisplayMeasurement {
+  const conversion = analyte ? CONVERSIONS[analyte.id] : undefined;
+  const from = conversion ? systemOf(conversion, measurement.unit) : null;
+  if (!from || from === system) return measurement;
+
+  const { factor, offset = 0, decimals } = conversion;
+  const convert = (value: number) => {
+    const converted = system === 'si' ? (value - offset) * factor : value / factor + offset;
+    return converted.toFixed(decimals[system]);
+  };
+
+  const value = convertText(measurement.value, convert);
+  if (value === null) return measurement;
+
+  return {
+    value,
+    unit: conversion[system],
+    range: measurement.range ? convertText(measurement.range, convert) ?? undefined : undefined,
+    reported: measurement,
+  };
+}
+
+/**
+ * Reference range to show next to a result. A range that could not be
+ * converted is shown as printed, with its own unit, rather than dropped.
+ */
+export function rangeLabel(measurement: DisplayMeasurement): string | undefined {
+  if (measurement.range) return measurement.range;
+  const reported = measurement.reported;
+  return reported?.range ? `${reported.range} ${reported.unit}` : undefined;
+}
+
+/**
+ * Example unit of each system, for the settings switch
+ */
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  conventional: 'mg/dL',
+  si: 'mmol/L',
+};
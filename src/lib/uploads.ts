@@ -0,0 +1,248 @@
+/**
+ * Upload manager for report uploads
+ * Wraps the /reports/upload call with progress reporting, cancellation,
+ * retries with backoff and persistence of pending uploads across reloads
+ */
+import { uploadReport, backoffDelay, UploadReportResponse, UploadDetails } from './api';
+import { idbGetAll, idbPut, idbDelete } from './idb';
+import { isApiError } from './errors';
+import { logger } from './logger';
+import { requestUploadSync } from './pwa';
+import { currentAccountId } from './offline';
+
+export interface PendingUpload extends UploadDetails {
+  id: string;
+  // Account that captured the report; no one else may resume or see it
+  userId: string;
+  files: File[];
+  fingerprints?: string[];
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+  // The server refused it in a way retrying cannot fix; the service worker leaves it alone
+  rejected?: boolean;
+}
+
+export type UploadState = 'uploading' | 'retrying' | 'completed' | 'failed' | 'cancelled';
+
+export interface UploadProgress {
+  state: UploadState;
+  loaded: number;
+  total: number;
+  percent: number;
+  attempt: number;
+  retryInMs?: number;
+}
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 20000;
+
+// Abort controllers for uploads running in this tab
+const activeUploads = new Map<string, AbortController>();
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Network failures, timeouts, rate limits and server errors are worth retrying;
+ * other 4xx responses will fail the same way again
+ */
+function isRetryable(error: unknown): boolean {
+  if (!isApiError(error)) return false;
+  return error.kind === 'network' || error.kind === 'server' || error.kind === 'rate-limited' || error.status === 408;
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+function waitForOnline(signal: AbortSignal): Promise<void> {
+  if (navigator.onLine) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const onOnline = () => {
+      window.removeEventListener('online', onOnline);
+      resolve();
+    };
+    window.addEventListener('online', onOnline);
+    signal.addEventListener('abort', () => {
+      window.removeEventListener('online', onOnline);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+async function persist(upload: PendingUpload) {
+  try {
+    await idbPut('uploads', upload);
+  } catch (error) {
+    // Persistence is best-effort: private browsing modes may block IndexedDB
+    logger.warn('Could not persist pending upload:', error);
+  }
+}
+
+async function forget(id: string) {
+  try {
+    await idbDelete('uploads', id);
+  } catch (error) {
+    logger.warn('Could not remove pending upload:', error);
+  }
+}
+
+/**
+ * Create a pending upload and store it so it survives a page reload
+ */
+export async function queueUpload(
+  files: File[],
+  details: UploadDetails & { fingerprints?: string[] } = {}
+): Promise<PendingUpload> {
+  const userId = await currentAccountId();
+  if (!userId) throw new Error('Sign in to upload reports');
+
+  const upload: PendingUpload = {
+    id: crypto.randomUUID(),
+    userId,
+    files,
+    ...details,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  await persist(upload);
+  return upload;
+}
+
+/**
+ * Run an upload to completion, retrying interrupted attempts with backoff.
+ * The stored record is removed on success or cancellation and kept on failure,
+ * so the same upload can be retried later without recapturing.
+ */
+export async function performUpload(
+  upload: PendingUpload,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<UploadReportResponse> {
+  activeUploads.get(upload.id)?.abort();
+  const controller = new AbortController();
+  activeUploads.set(upload.id, controller);
+
+  const total = upload.files.reduce((sum, file) => sum + file.size, 0);
+  const report = (progress: Omit<UploadProgress, 'percent'>) => {
+    const percent = progress.total > 0 ? Math.round((progress.loaded / progress.total) * 100) : 0;
+    onProgress?.({ ...progress, percent });
+  };
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      // Let the service worker finish the upload if the tab is closed before we are back online
+      if (!navigator.onLine) requestUploadSync();
+      await waitForOnline(controller.signal);
+
+      upload.attempts += 1;
+      report({ state: 'uploading', loaded: 0, total, attempt });
+
+      try {
+        const result = await uploadReport(upload.files, {
+          reportType: upload.reportType,
+          labName: upload.labName,
+          collectionDate: upload.collectionDate,
+          targetUserId: upload.targetUserId,
+          fingerprints: upload.fingerprints,
+          uploadId: upload.id,
+          signal: controller.signal,
+          onProgress: (loaded, size) => report({ state: 'uploading', loaded, total: size, attempt }),
+        });
+
+        await forget(upload.id);
+        report({ state: 'completed', loaded: total, total, attempt });
+        return result;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+
+        upload.lastError = error instanceof Error ? error.message : String(error);
+        upload.rejected = !isRetryable(error);
+        await persist(upload);
+
+        if (!isRetryable(error) || attempt >= MAX_ATTEMPTS) {
+          if (isRetryable(error)) requestUploadSync();
+          report({ state: 'failed', loaded: 0, total, attempt });
+          throw error;
+        }
+
+        const delay = backoffDelay(attempt, error, { baseMs: BASE_DELAY_MS, maxMs: MAX_DELAY_MS });
+        logger.warn(`Upload attempt ${attempt} failed, retrying in ${delay}ms:`, upload.lastError);
+        report({ state: 'retrying', loaded: 0, total, attempt, retryInMs: delay });
+        await wait(delay, controller.signal);
+      }
+    }
+  } catch (error) {
+    if (isAbortError(error)) {
+      await forget(upload.id);
+      report({ state: 'cancelled', loaded: 0, total, attempt: upload.attempts });
+    }
+    throw error;
+  } finally {
+    if (activeUploads.get(upload.id) === controller) {
+      activeUploads.delete(upload.id);
+    }
+  }
+}
+
+/**
+ * Cancel a running upload; its stored record is discarded
+ */
+export function cancelUpload(id: string) {
+  activeUploads.get(id)?.abort();
+}
+
+/**
+ * The signed-in account's stored uploads. Uploads outlive sign out so an
+ * expired session can sign back in and resume them; once a different account
+ * signs in, the ones left behind are deleted unsent.
+ */
+async function ownUploads(): Promise<PendingUpload[]> {
+  const userId = await currentAccountId();
+  const uploads = await idbGetAll<PendingUpload>('uploads');
+  const isOwn = (upload: PendingUpload) => !!userId && upload.userId === userId;
+  if (userId) await Promise.all(uploads.filter((upload) => !isOwn(upload)).map((upload) => forget(upload.id)));
+  return uploads.filter(isOwn);
+}
+
+/**
+ * The signed-in account's pending uploads left over from an earlier session, oldest first
+ */
+export async function getPendingUploads(): Promise<PendingUpload[]> {
+  try {
+    return (await ownUploads())
+      .filter((upload) => !activeUploads.has(upload.id))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    logger.warn('Could not read pending uploads:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete pending uploads that belong to an account other than the one signed in
+ */
+export async function discardOtherAccountsUploads() {
+  try {
+    await ownUploads();
+  } catch (error) {
+    logger.warn('Could not read pending uploads:', error);
+  }
+}
+
+/**
+ * Drop a stored upload the user no longer wants to resume
+ */
+export async function discardUpload(id: string) {
+  cancelUpload(id);
+  await forget(id);
+}
+
+export const isUploadCancelled = isAbortError;
@@ -12,8 +12,8 @@ export function cn(...inputs: ClassValue[]) {
 export function getStorageUrl(path: string | undefined | null): string {
   if (!path) return '';
 
-  // If it's already a full URL, return it
-  if (path.startsWith('http://') || path.startsWith('https://')) {
+  // If it's already a full URL (or an in-browser one from sandbox mode), return it
+  if (/^(https?|blob|data):/.test(path)) {
     return path;
   }
 
@@ -1,14 +1,23 @@
 import React from 'react';
 import { ThemeProvider } from '@/contexts/ThemeContext';
+import { UnitsProvider } from '@/contexts/UnitsContext';
 import { AppProvider } from '@/contexts/AppContext';
+import { ProcessingProvider } from '@/contexts/ProcessingContext';
+import { OfflineProvider } from '@/contexts/OfflineContext';
 import { MediGuideApp } from '@/components/MediGuideApp';
 
 const Index = () => {
   return (
     <ThemeProvider>
-      <AppProvider>
-        <MediGuideApp />
-      </AppProvider>
+      <UnitsProvider>
+        <AppProvider>
+          <OfflineProvider>
+            <ProcessingProvider>
+              <MediGuideApp />
+            </ProcessingProvider>
+          </OfflineProvider>
+        </AppProvider>
+      </UnitsProvider>
     </ThemeProvider>
   );
 };
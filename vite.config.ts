@@ -1,7 +1,30 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 
+const SW_ASSETS_PLACEHOLDER = "const BUILD_ASSETS = [];";
+
+// Writes the build's hashed assets into the built sw.js so the worker precaches the
+// bundle index.html points to. sw.js changes with every build, so browsers update it.
+function precacheBuildAssets(): Plugin {
+  return {
+    name: "precache-build-assets",
+    apply: "build",
+    writeBundle(options, bundle) {
+      const assets = Object.keys(bundle)
+        .filter((file) => file.startsWith("assets/") && !file.endsWith(".map"))
+        .sort()
+        .map((file) => `/${file}`);
+      const worker = path.join(options.dir ?? "dist", "sw.js");
+      const source = fs.readFileSync(worker, "utf8");
+      if (!source.includes(SW_ASSETS_PLACEHOLDER)) {
+        throw new Error(`sw.js no longer declares ${SW_ASSETS_PLACEHOLDER}`);
+      }
+      fs.writeFileSync(worker, source.replace(SW_ASSETS_PLACEHOLDER, `const BUILD_ASSETS = ${JSON.stringify(assets)};`));
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -9,7 +32,7 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react()].filter(Boolean),
+  plugins: [react(), precacheBuildAssets()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),